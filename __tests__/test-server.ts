@@ -17,6 +17,8 @@ import type { TestProject } from 'vitest/node'
 import * as url from 'url'
 import { Codec, JSON_CODEC, newWebSocketRpcSession, nodeHttpBatchRpcResponse } from '../src/index.js';
 import { V8_CODEC } from '../src/contrib/v8-codec.js';
+import { MSGPACK_CODEC } from '../src/contrib/msgpack-codec.js';
+import { CBOR_CODEC } from '../src/contrib/cbor-codec.js';
 import { TestTarget } from './test-util.js';
 import http from "node:http";
 
@@ -26,10 +28,14 @@ type Server = {
 }
 let jsonServer: Server = {};
 let v8Server: Server = {};
+let msgpackServer: Server = {};
+let cborServer: Server = {};
 
 export async function setup(project: TestProject) {
   await setupImpl(project, JSON_CODEC, jsonServer);
   await setupImpl(project, V8_CODEC, v8Server);
+  await setupImpl(project, MSGPACK_CODEC, msgpackServer);
+  await setupImpl(project, CBOR_CODEC, cborServer);
 }
 
 async function setupImpl(project: TestProject, codec: Codec, x: Server) {
@@ -43,6 +49,8 @@ async function setupImpl(project: TestProject, codec: Codec, x: Server) {
     // Here we're just routing all requests to RPC, but normally you'd do some routing on
     // request.url and then call this only for your API route.
     nodeHttpBatchRpcResponse(request, response, new TestTarget(), {
+      codec,
+
       // The unit test runs on a different origin, so for the sake of the browser test runners,
       // we'll need to enable CORS. Real apps may or may not want this. Understanding CORS is
       // beyond the scope of this example.
@@ -74,6 +82,8 @@ async function setupImpl(project: TestProject, codec: Codec, x: Server) {
 export async function teardown() {
   await teardownImpl(jsonServer!);
   await teardownImpl(v8Server!);
+  await teardownImpl(msgpackServer!);
+  await teardownImpl(cborServer!);
 }
 
 async function teardownImpl(x: Server) {
@@ -4,9 +4,102 @@
 
 import { RpcStub } from "./core.js";
 import { RpcTransport, RpcSession, RpcSessionOptions } from "./rpc.js";
+import type { WireMessage } from "./codec.js";
 import type { IncomingMessage, ServerResponse, OutgoingHttpHeader, OutgoingHttpHeaders } from "node:http";
 
-type SendBatchFunc = (batch: string[]) => Promise<string[]>;
+type BatchMessage = string | Uint8Array;
+
+type SendBatchFunc = (batch: BatchMessage[]) => Promise<BatchMessage[]>;
+
+const MULTIPART = "multipart/form-data";
+
+// Batches consisting only of text messages are sent as a plain text body with one message per
+// line. Batches containing binary messages (from a binary codec, or byte arrays sent as
+// attachments) are sent as a `multipart/form-data` body with one part per message instead.
+function encodeBatch(batch: BatchMessage[]): string | FormData {
+  if (batch.every(msg => typeof msg === "string")) {
+    return batch.join("\n");
+  }
+
+  let form = new FormData();
+  for (let msg of batch) {
+    form.append("message", typeof msg === "string" ? msg : new Blob([<BlobPart>msg]));
+  }
+  return form;
+}
+
+async function decodeBatch(body: Request | Response): Promise<BatchMessage[]> {
+  if (isMultipart(body.headers.get("Content-Type"))) {
+    let batch: BatchMessage[] = [];
+    for (let part of (await body.formData()).getAll("message")) {
+      batch.push(typeof part === "string" ? part : new Uint8Array(await part.arrayBuffer()));
+    }
+    return batch;
+  }
+
+  let text = await body.text();
+  return text === "" ? [] : text.split("\n");
+}
+
+function isMultipart(mediaType: string | null | undefined): boolean {
+  return !!mediaType && mediaType.toLowerCase().includes(MULTIPART);
+}
+
+// The server only sends a multipart response if the client's Accept header lists multipart bodies
+// explicitly, i.e. not through a wildcard, and without a quality of 0: older clients can't decode
+// multipart responses, and applications may override the Accept header our client sends.
+function acceptsMultipart(accept: string | null | undefined): boolean {
+  return !!accept && accept.split(",").some(range => {
+    let [mediaType, ...params] = range.split(";").map(part => part.trim().toLowerCase());
+    return mediaType === MULTIPART &&
+        !params.some(param => /^q=0(\.0*)?$/.test(param.replace(/\s/g, "")));
+  });
+}
+
+// Applies the server's defaults to the session options: a client that accepts multipart responses
+// understands attachments, so they're sent unless the application turned them off.
+function serverOptions<T extends RpcSessionOptions>(
+    options: T | undefined, accept: string | null | undefined): T {
+  return {
+    ...<T>options,
+    sendAttachments: acceptsMultipart(accept) && (options?.sendAttachments ?? true),
+  };
+}
+
+// Returns the given Node.js response headers, with any Content-Type replaced by `contentType`.
+function withContentType(headers: OutgoingHttpHeaders | OutgoingHttpHeader[] | undefined,
+                         contentType: string): OutgoingHttpHeaders | OutgoingHttpHeader[] {
+  if (Array.isArray(headers)) {
+    // A flat list of names and values.
+    let result: OutgoingHttpHeader[] = [];
+    for (let i = 0; i < headers.length; i += 2) {
+      if (String(headers[i]).toLowerCase() !== "content-type") {
+        result.push(headers[i], headers[i + 1]);
+      }
+    }
+    result.push("Content-Type", contentType);
+    return result;
+  }
+
+  let result: OutgoingHttpHeaders = {};
+  for (let name in headers) {
+    if (name.toLowerCase() !== "content-type") {
+      result[name] = headers[name];
+    }
+  }
+  result["Content-Type"] = contentType;
+  return result;
+}
+
+function toBatchMessage(message: WireMessage): BatchMessage {
+  if (typeof message === "string" || message instanceof Uint8Array) {
+    return message;
+  } else if (message instanceof ArrayBuffer) {
+    return new Uint8Array(message);
+  } else {
+    throw new TypeError("HTTP batch transport can only send strings and binary messages.");
+  }
+}
 
 class BatchClientTransport implements RpcTransport {
   constructor(sendBatch: SendBatchFunc) {
@@ -16,19 +109,23 @@ class BatchClientTransport implements RpcTransport {
   #promise: Promise<void>;
   #aborted: any;
 
-  #batchToSend: string[] | null = [];
-  #batchToReceive: string[] | null = null;
+  #batchToSend: BatchMessage[] | null = [];
+  #batchToReceive: BatchMessage[] | null = null;
 
-  async send(message: string): Promise<void> {
+  // Attachments are only actually sent if the session has `sendAttachments` set, as older servers
+  // don't understand multipart requests.
+  readonly supportsAttachments = true;
+
+  async send(message: WireMessage): Promise<void> {
     // If the batch was already sent, we just ignore the message, because throwing may cause the
     // RPC system to abort prematurely. Once the last receive() is done then we'll throw an error
     // that aborts the RPC system at the right time and will propagate to all other requests.
     if (this.#batchToSend !== null) {
-      this.#batchToSend.push(message);
+      this.#batchToSend.push(toBatchMessage(message));
     }
   }
 
-  async receive(): Promise<string> {
+  async receive(): Promise<BatchMessage> {
     if (!this.#batchToReceive) {
       await this.#promise;
     }
@@ -69,11 +166,19 @@ class BatchClientTransport implements RpcTransport {
 
 export function newHttpBatchRpcSession(
     urlOrRequest: string | Request, init?: RequestInit, options?: RpcSessionOptions): RpcStub {
-  let sendBatch: SendBatchFunc = async (batch: string[]) => {
+  let sendBatch: SendBatchFunc = async (batch: BatchMessage[]) => {
+    // Let the server know that it may respond with a multipart body.
+    let headers = new Headers(init?.headers ??
+        (urlOrRequest instanceof Request ? urlOrRequest.headers : undefined));
+    if (!headers.has("Accept")) {
+      headers.set("Accept", `${MULTIPART}, text/plain`);
+    }
+
     let response = await fetch(urlOrRequest, {
       ...init,
+      headers,
       method: "POST",
-      body: batch.join("\n"),
+      body: encodeBatch(batch),
     });
 
     if (!response.ok) {
@@ -81,8 +186,7 @@ export function newHttpBatchRpcSession(
       throw new Error(`RPC request failed: ${response.status} ${response.statusText}`);
     }
 
-    let body = await response.text();
-    return body == "" ? [] : body.split("\n");
+    return await decodeBatch(response);
   };
 
   let transport = new BatchClientTransport(sendBatch);
@@ -91,19 +195,21 @@ export function newHttpBatchRpcSession(
 }
 
 class BatchServerTransport implements RpcTransport {
-  constructor(batch: string[]) {
+  // `supportsAttachments` should be true if the client sent a multipart request or accepts
+  // multipart responses. Attachments are only sent in the latter case (see `serverOptions()`).
+  constructor(batch: BatchMessage[], readonly supportsAttachments: boolean) {
     this.#batchToReceive = batch;
   }
 
-  #batchToSend: string[] = [];
-  #batchToReceive: string[];
+  #batchToSend: BatchMessage[] = [];
+  #batchToReceive: BatchMessage[];
   #allReceived: PromiseWithResolvers<void> = Promise.withResolvers<void>();
 
-  async send(message: string): Promise<void> {
-    this.#batchToSend.push(message);
+  async send(message: WireMessage): Promise<void> {
+    this.#batchToSend.push(toBatchMessage(message));
   }
 
-  async receive(): Promise<string> {
+  async receive(): Promise<BatchMessage> {
     let msg = this.#batchToReceive!.shift();
     if (msg !== undefined) {
       return msg;
@@ -122,8 +228,8 @@ class BatchServerTransport implements RpcTransport {
     return this.#allReceived.promise;
   }
 
-  getResponseBody(): string {
-    return this.#batchToSend.join("\n");
+  getResponseBody(): string | FormData {
+    return encodeBatch(this.#batchToSend);
   }
 }
 
@@ -143,11 +249,13 @@ export async function newHttpBatchRpcResponse(
     return new Response("This endpoint only accepts POST requests.", { status: 405 });
   }
 
-  let body = await request.text();
-  let batch = body === "" ? [] : body.split("\n");
+  let batch = await decodeBatch(request);
 
-  let transport = new BatchServerTransport(batch);
-  let rpc = new RpcSession(transport, localMain, options);
+  let contentType = request.headers.get("Content-Type");
+  let accept = request.headers.get("Accept");
+  let transport = new BatchServerTransport(batch,
+      isMultipart(contentType) || acceptsMultipart(accept));
+  let rpc = new RpcSession(transport, localMain, serverOptions(options, accept));
 
   // TODO: Arguably we should arrange so any attempts to pull promise resolutions from the client
   //   will reject rather than just hang. But it IS valid to make server->client calls in order to
@@ -182,24 +290,38 @@ export async function nodeHttpBatchRpcResponse(
     response.writeHead(405, "This endpoint only accepts POST requests.");
   }
 
-  let body = await new Promise<string>((resolve, reject) => {
+  let body = await new Promise<Buffer>((resolve, reject) => {
     let chunks: Buffer[] = [];
     request.on("data", chunk => {
       chunks.push(chunk);
     });
     request.on("end", () => {
-      resolve(Buffer.concat(chunks).toString());
+      resolve(Buffer.concat(chunks));
     });
     request.on("error", reject);
   });
-  let batch = body === "" ? [] : body.split("\n");
+  let contentType = request.headers["content-type"];
+  let batch = await decodeBatch(new Response(<BodyInit>body,
+      contentType ? { headers: { "Content-Type": contentType } } : undefined));
 
-  let transport = new BatchServerTransport(batch);
-  let rpc = new RpcSession(transport, localMain, options);
+  let accept = request.headers["accept"];
+  let transport = new BatchServerTransport(batch,
+      isMultipart(contentType) || acceptsMultipart(accept));
+  let rpc = new RpcSession(transport, localMain, serverOptions(options, accept));
 
   await transport.whenAllReceived();
   await rpc.drain();
 
-  response.writeHead(200, options?.headers);
-  response.end(transport.getResponseBody());
+  let responseBody = transport.getResponseBody();
+  if (typeof responseBody === "string") {
+    response.writeHead(200, options?.headers);
+    response.end(responseBody);
+  } else {
+    // Let the Fetch API pick the multipart boundary and produce the body. The body can't be read
+    // without the boundary, so this Content-Type takes precedence over the given headers.
+    let encoded = new Response(responseBody);
+    response.writeHead(200,
+        withContentType(options?.headers, encoded.headers.get("Content-Type")!));
+    response.end(Buffer.from(await encoded.arrayBuffer()));
+  }
 }
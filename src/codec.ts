@@ -2,25 +2,46 @@
 // Licensed under the MIT license found in the LICENSE.txt file or at:
 //     https://opensource.org/license/mit
 
-import { RpcStub, RpcPromise, RpcTarget, type TypeForRpc, workersModule } from "./core.js";
+import { RpcStub, RpcPromise, RpcTarget, type TypeForRpc, workersModule,
+         isByReference } from "./core.js";
 import { RawFeatures, RawSubtreeBranded } from "./serialize.js";
 import { RAW_SUBTREE_BRAND } from "./symbols.js";
+import { findSerializableClass, type TypeHandler } from "./type-handler.js";
 
 export type WireMessage = string | Uint8Array | ArrayBuffer | object;
 
 export interface Codec {
-  // Encode a JSON-serializable message tree (RPC expression) to a wire payload.
-  encode(message: any): WireMessage;
+  // Encode a JSON-serializable message tree (RPC expression) to a wire payload. May return a
+  // promise, e.g. to encrypt the message with WebCrypto; sessions still send messages in order.
+  encode(message: any): WireMessage | Promise<WireMessage>;
 
-  // Decode a wire payload into a JSON-serializable message tree (RPC expression).
+  // Decode a wire payload into a JSON-serializable message tree (RPC expression). Like `encode()`,
+  // may return a promise.
   decode(wire: WireMessage): any;
 
-  // Indicates which value-level codec semantics apply for devaluation/evaluation.
-  readonly name: "json" | "postmessage" | "object" | "v8";
+  // Identifies the codec. The built-in codecs are "json", "postmessage" and "object"; codecs in
+  // contrib/ include "v8" and "msgpack". Value-level semantics are governed by `typeForRpc()`, not
+  // by the name.
+  readonly name: string;
+
+  // True if binary attachments (see `RpcTransport.supportsAttachments`) must not be used with this
+  // codec even though it doesn't support byte arrays natively: e.g. because it compresses a text
+  // codec's output into binary messages, which would be indistinguishable from attachments, or
+  // because attachments would bypass its encryption.
+  readonly disableAttachments?: boolean;
+
+  // True if `encode()` produces object trees, which the transport copies as they are (e.g. with
+  // structured clone), rather than strings or bytes.
+  readonly objectWires?: boolean;
 
   // Classify a value for RPC serialization semantics under this codec.
   // This governs what the devaluator treats as pass-through vs needs tagging.
   typeForRpc(value: unknown): TypeForRpc;
+
+  // For codecs that support application-defined types (see `TypeHandlerCodec`): find the handler
+  // for a value classified as "custom", and look up a handler by name when evaluating.
+  findTypeHandler?(value: unknown): TypeHandler | undefined;
+  getTypeHandler?(name: string): TypeHandler | undefined;
 }
 
 export class JsonCodec implements Codec {
@@ -70,12 +91,19 @@ export class JsonCodec implements Codec {
       return "raw-subtree";
     }
 
+    // Any object can be passed by reference, like an RpcTarget, by marking it with `byReference()`.
+    if (isByReference(value)) {
+      return "rpc-target";
+    }
+
     // Aside from RpcTarget, we generally don't support serializing *subclasses* of serializable
     // types, so we switch on the exact prototype rather than use `instanceof` here.
     let prototype = Object.getPrototypeOf(value);
     switch (prototype) {
       case Object.prototype:
-        return "object";
+        // A plain object implementing the async iteration protocol is sent as an async iterable,
+        // not as data.
+        return Symbol.asyncIterator in value ? "async-iterable" : "object";
 
       case Function.prototype:
         return "function";
@@ -86,7 +114,26 @@ export class JsonCodec implements Codec {
       case Date.prototype:
         return "date";
 
-      // TODO: All other structured clone types.
+      case Map.prototype:
+        return "map";
+
+      case Set.prototype:
+        return "set";
+
+      case RegExp.prototype:
+        return "regexp";
+
+      case ArrayBuffer.prototype:
+        return "array-buffer";
+
+      case DataView.prototype:
+        return "data-view";
+
+      case Boolean.prototype:
+      case Number.prototype:
+      case String.prototype:
+      case BigInt.prototype:
+        return "boxed";
 
       case RpcStub.prototype:
         return "stub";
@@ -112,6 +159,10 @@ export class JsonCodec implements Codec {
           }
         }
 
+        if (findSerializableClass(value)) {
+          return "instance";
+        }
+
         if (ArrayBuffer.isView(value)) {
           return "bytes"
         }
@@ -133,6 +184,36 @@ export class JsonCodec implements Codec {
           return "abort-signal";
         }
 
+        if (typeof ReadableStream !== "undefined" && value instanceof ReadableStream) {
+          return "readable-stream";
+        }
+
+        if (typeof WritableStream !== "undefined" && value instanceof WritableStream) {
+          return "writable-stream";
+        }
+
+        if (typeof Headers !== "undefined" && value instanceof Headers) {
+          return "headers";
+        }
+
+        if (typeof Request !== "undefined" && value instanceof Request) {
+          return "request";
+        }
+
+        if (typeof Response !== "undefined" && value instanceof Response) {
+          return "response";
+        }
+
+        // Includes `File`.
+        if (typeof Blob !== "undefined" && value instanceof Blob) {
+          return "blob";
+        }
+
+        // E.g. async generators.
+        if (Symbol.asyncIterator in value) {
+          return "async-iterable";
+        }
+
         return "unsupported";
     }
   }
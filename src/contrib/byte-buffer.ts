@@ -0,0 +1,118 @@
+// Minimal growable big-endian byte buffer helpers shared by the binary codecs in this directory.
+
+export class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private pos = 0;
+
+  private ensure(n: number) {
+    if (this.pos + n > this.buffer.length) {
+      let newBuffer = new Uint8Array(Math.max(this.buffer.length * 2, this.pos + n));
+      newBuffer.set(this.buffer);
+      this.buffer = newBuffer;
+      this.view = new DataView(newBuffer.buffer);
+    }
+  }
+
+  u8(x: number) { this.ensure(1); this.view.setUint8(this.pos, x); this.pos += 1; }
+  u16(x: number) { this.ensure(2); this.view.setUint16(this.pos, x); this.pos += 2; }
+  u32(x: number) { this.ensure(4); this.view.setUint32(this.pos, x); this.pos += 4; }
+  i8(x: number) { this.ensure(1); this.view.setInt8(this.pos, x); this.pos += 1; }
+  i16(x: number) { this.ensure(2); this.view.setInt16(this.pos, x); this.pos += 2; }
+  i32(x: number) { this.ensure(4); this.view.setInt32(this.pos, x); this.pos += 4; }
+  u64(x: bigint) { this.ensure(8); this.view.setBigUint64(this.pos, x); this.pos += 8; }
+  i64(x: bigint) { this.ensure(8); this.view.setBigInt64(this.pos, x); this.pos += 8; }
+  f32(x: number) { this.ensure(4); this.view.setFloat32(this.pos, x); this.pos += 4; }
+  f64(x: number) { this.ensure(8); this.view.setFloat64(this.pos, x); this.pos += 8; }
+
+  bytes(x: Uint8Array) {
+    this.ensure(x.length);
+    this.buffer.set(x, this.pos);
+    this.pos += x.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.subarray(0, this.pos);
+  }
+}
+
+export class ByteReader {
+  constructor(private buffer: Uint8Array) {
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  }
+
+  private view: DataView;
+  private pos = 0;
+
+  private check(n: number) {
+    if (this.pos + n > this.buffer.length) {
+      throw new TypeError("unexpected end of message");
+    }
+  }
+
+  u8() { this.check(1); return this.view.getUint8(this.pos++); }
+  u16() { this.check(2); let x = this.view.getUint16(this.pos); this.pos += 2; return x; }
+  u32() { this.check(4); let x = this.view.getUint32(this.pos); this.pos += 4; return x; }
+  i8() { this.check(1); return this.view.getInt8(this.pos++); }
+  i16() { this.check(2); let x = this.view.getInt16(this.pos); this.pos += 2; return x; }
+  i32() { this.check(4); let x = this.view.getInt32(this.pos); this.pos += 4; return x; }
+  u64() { this.check(8); let x = this.view.getBigUint64(this.pos); this.pos += 8; return x; }
+  i64() { this.check(8); let x = this.view.getBigInt64(this.pos); this.pos += 8; return x; }
+  f16() { this.check(2); let x = decodeFloat16(this.view.getUint16(this.pos)); this.pos += 2; return x; }
+  f32() { this.check(4); let x = this.view.getFloat32(this.pos); this.pos += 4; return x; }
+  f64() { this.check(8); let x = this.view.getFloat64(this.pos); this.pos += 8; return x; }
+
+  // Returns a view into the underlying buffer, not a copy.
+  bytes(n: number): Uint8Array {
+    this.check(n);
+    let result = this.buffer.subarray(this.pos, this.pos + n);
+    this.pos += n;
+    return result;
+  }
+
+  peek(): number {
+    this.check(1);
+    return this.buffer[this.pos];
+  }
+
+  atEnd() {
+    return this.pos === this.buffer.length;
+  }
+}
+
+function decodeFloat16(bits: number): number {
+  let sign = bits & 0x8000 ? -1 : 1;
+  let exponent = (bits >> 10) & 0x1f;
+  let fraction = bits & 0x3ff;
+  if (exponent === 0) {
+    return sign * 2 ** -14 * (fraction / 1024);
+  } else if (exponent === 0x1f) {
+    return fraction ? NaN : sign * Infinity;
+  } else {
+    return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+  }
+}
+
+// Minimal big-endian two's complement representation of a bigint.
+export function bigintToBytes(x: bigint): Uint8Array {
+  let bytes: number[] = [];
+  for (;;) {
+    bytes.unshift(Number(x & 0xffn));
+    x >>= 8n;
+    if ((x === 0n && (bytes[0] & 0x80) === 0) || (x === -1n && (bytes[0] & 0x80) !== 0)) {
+      return new Uint8Array(bytes);
+    }
+  }
+}
+
+// Interprets big-endian bytes as an integer, two's complement if `signed`.
+export function bytesToBigint(bytes: Uint8Array, signed: boolean): bigint {
+  let result = 0n;
+  for (let b of bytes) {
+    result = (result << 8n) | BigInt(b);
+  }
+  if (signed && bytes.length > 0 && (bytes[0] & 0x80) !== 0) {
+    result -= 1n << BigInt(bytes.length * 8);
+  }
+  return result;
+}
@@ -0,0 +1,450 @@
+import { Codec, WireMessage, JSON_CODEC, isRawSubtreeBranded } from "../codec.js";
+import { type TypeForRpc } from "../core.js";
+import { RawFeatures } from "../serialize.js";
+import { RAW_SUBTREE_BRAND } from "../symbols.js";
+import { ByteReader, ByteWriter, bigintToBytes, bytesToBigint } from "./byte-buffer.js";
+
+// CBOR major types (RFC 8949, section 3.1).
+const MT_UINT = 0;
+const MT_NEGINT = 1;
+const MT_BYTES = 2;
+const MT_TEXT = 3;
+const MT_ARRAY = 4;
+const MT_MAP = 5;
+const MT_TAG = 6;
+const MT_SIMPLE = 7;
+
+// Standard tags.
+const TAG_DATE_STRING = 0;
+const TAG_DATE_EPOCH = 1;
+const TAG_POSITIVE_BIGNUM = 2;
+const TAG_NEGATIVE_BIGNUM = 3;
+const TAG_SELF_DESCRIBED = 55799;
+
+// RFC 8746 typed array tags are 64 + 0b000fsell, where f = float, s = signed, e = little-endian,
+// and ll is the log2 of the element size (in bytes for integers, relative to 16 bits for floats).
+// Uint8Array is encoded as a plain byte string instead. We always encode little-endian, but accept
+// either byte order.
+const TYPED_ARRAY_TAG_BASE = 64;
+const TAG_UINT8_CLAMPED = 68;
+
+interface TypedArrayInfo {
+  ctor: any;
+  float: boolean;
+  signed: boolean;
+  size: number;
+}
+
+const TYPED_ARRAY_TYPES: TypedArrayInfo[] = [
+  { ctor: Uint16Array, float: false, signed: false, size: 2 },
+  { ctor: Uint32Array, float: false, signed: false, size: 4 },
+  { ctor: BigUint64Array, float: false, signed: false, size: 8 },
+  { ctor: Int8Array, float: false, signed: true, size: 1 },
+  { ctor: Int16Array, float: false, signed: true, size: 2 },
+  { ctor: Int32Array, float: false, signed: true, size: 4 },
+  { ctor: BigInt64Array, float: false, signed: true, size: 8 },
+  { ctor: Float32Array, float: true, signed: false, size: 4 },
+  { ctor: Float64Array, float: true, signed: false, size: 8 },
+];
+if (globalThis.Float16Array) {
+  TYPED_ARRAY_TYPES.push({ ctor: globalThis.Float16Array, float: true, signed: false, size: 2 });
+}
+
+function typedArrayTag(info: TypedArrayInfo, littleEndian: boolean): number {
+  let ll = Math.log2(info.float ? info.size / 2 : info.size);
+  return TYPED_ARRAY_TAG_BASE | (info.float ? 0x10 : 0) | (info.signed ? 0x08 : 0) |
+      (littleEndian ? 0x04 : 0) | ll;
+}
+
+const TYPED_ARRAYS_BY_TAG = new Map<number, { info: TypedArrayInfo, littleEndian: boolean }>();
+for (let info of TYPED_ARRAY_TYPES) {
+  TYPED_ARRAYS_BY_TAG.set(typedArrayTag(info, false), { info, littleEndian: false });
+  TYPED_ARRAYS_BY_TAG.set(typedArrayTag(info, true), { info, littleEndian: true });
+}
+
+const PLATFORM_LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+// Raw subtrees may contain anything that CBOR can encode natively or via the tags above.
+const SUPPORTED_RAW_FEATURES =
+    RawFeatures.Date | RawFeatures.Uint8Array | RawFeatures.BigInt | RawFeatures.TypedArrays;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder("utf-8", { fatal: true });
+
+function writeHead(w: ByteWriter, majorType: number, value: number) {
+  let mt = majorType << 5;
+  if (value < 24) {
+    w.u8(mt | value);
+  } else if (value < 0x100) {
+    w.u8(mt | 24); w.u8(value);
+  } else if (value < 0x10000) {
+    w.u8(mt | 25); w.u16(value);
+  } else if (value < 0x100000000) {
+    w.u8(mt | 26); w.u32(value);
+  } else {
+    w.u8(mt | 27); w.u64(BigInt(value));
+  }
+}
+
+function writeNumber(w: ByteWriter, x: number) {
+  if (Number.isSafeInteger(x) && !Object.is(x, -0)) {
+    if (x >= 0) {
+      writeHead(w, MT_UINT, x);
+    } else {
+      writeHead(w, MT_NEGINT, -1 - x);
+    }
+  } else if (Object.is(Math.fround(x), x) || Number.isNaN(x)) {
+    // Covers -0, NaN and the infinities, too.
+    w.u8((MT_SIMPLE << 5) | 26);
+    w.f32(x);
+  } else {
+    w.u8((MT_SIMPLE << 5) | 27);
+    w.f64(x);
+  }
+}
+
+function writeBigint(w: ByteWriter, x: bigint) {
+  // Always use bignum tags, even for small values, so that the receiver gets a bigint back.
+  let tag = TAG_POSITIVE_BIGNUM;
+  if (x < 0n) {
+    tag = TAG_NEGATIVE_BIGNUM;
+    x = -1n - x;
+  }
+  let bytes = x === 0n ? new Uint8Array(0) : bigintToBytes(x);
+  if (bytes.length > 1 && bytes[0] === 0) {
+    // Drop the sign byte; bignums are unsigned.
+    bytes = bytes.subarray(1);
+  }
+  writeHead(w, MT_TAG, tag);
+  writeHead(w, MT_BYTES, bytes.length);
+  w.bytes(bytes);
+}
+
+function writeTypedArray(w: ByteWriter, value: ArrayBufferView) {
+  let info = TYPED_ARRAY_TYPES.find(info => value instanceof info.ctor);
+  let tag: number;
+  if (value instanceof Uint8ClampedArray) {
+    tag = TAG_UINT8_CLAMPED;
+  } else if (info) {
+    tag = typedArrayTag(info, true);
+  } else {
+    throw new TypeError("CborCodec.encode: unsupported ArrayBufferView");
+  }
+
+  let bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  writeHead(w, MT_TAG, tag);
+  writeHead(w, MT_BYTES, bytes.length);
+  if (PLATFORM_LITTLE_ENDIAN || !info || info.size === 1) {
+    w.bytes(bytes);
+  } else {
+    w.bytes(swapBytes(bytes, info.size));
+  }
+}
+
+function swapBytes(bytes: Uint8Array, size: number): Uint8Array {
+  let result = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i += size) {
+    for (let j = 0; j < size; j++) {
+      result[i + j] = bytes[i + size - 1 - j];
+    }
+  }
+  return result;
+}
+
+function writeValue(w: ByteWriter, value: unknown, depth: number) {
+  if (depth >= 128) {
+    throw new Error("CborCodec.encode: message exceeded maximum nesting depth.");
+  }
+
+  switch (typeof value) {
+    case "undefined":
+      w.u8((MT_SIMPLE << 5) | 23);
+      return;
+    case "boolean":
+      w.u8((MT_SIMPLE << 5) | (value ? 21 : 20));
+      return;
+    case "number":
+      writeNumber(w, value);
+      return;
+    case "bigint":
+      writeBigint(w, value);
+      return;
+    case "string": {
+      let bytes = textEncoder.encode(value);
+      writeHead(w, MT_TEXT, bytes.length);
+      w.bytes(bytes);
+      return;
+    }
+    case "object":
+      break;
+    default:
+      throw new TypeError(`CborCodec.encode: can't encode value of type ${typeof value}`);
+  }
+
+  if (value === null) {
+    w.u8((MT_SIMPLE << 5) | 22);
+  } else if (value instanceof Array) {
+    writeHead(w, MT_ARRAY, value.length);
+    for (let item of value) {
+      writeValue(w, item, depth + 1);
+    }
+  } else if (value instanceof Uint8Array) {
+    writeHead(w, MT_BYTES, value.length);
+    w.bytes(value);
+  } else if (ArrayBuffer.isView(value)) {
+    writeTypedArray(w, value);
+  } else if (value instanceof Date) {
+    let ms = value.getTime();
+    writeHead(w, MT_TAG, TAG_DATE_EPOCH);
+    writeNumber(w, ms / 1000);
+  } else {
+    let keys = Object.keys(value);
+    writeHead(w, MT_MAP, keys.length);
+    for (let key of keys) {
+      writeValue(w, key, depth + 1);
+      writeValue(w, (<Record<string, unknown>>value)[key], depth + 1);
+    }
+  }
+}
+
+// Marker returned by readValue() when it encounters the "break" stop code of an indefinite-length
+// item.
+const BREAK = Symbol("break");
+
+// Reads the argument of an initial byte. Returns undefined for indefinite length (31).
+function readArgument(r: ByteReader, info: number): number | bigint | undefined {
+  if (info < 24) return info;
+  switch (info) {
+    case 24: return r.u8();
+    case 25: return r.u16();
+    case 26: return r.u32();
+    case 27: {
+      let x = r.u64();
+      return x <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(x) : x;
+    }
+    case 31: return undefined;
+    default:
+      throw new TypeError(`CborCodec.decode: invalid additional info ${info}`);
+  }
+}
+
+function readLength(r: ByteReader, info: number): number | undefined {
+  let length = readArgument(r, info);
+  if (typeof length === "bigint") {
+    throw new RangeError("CborCodec.decode: length too large");
+  }
+  return length;
+}
+
+function readChunks(r: ByteReader, majorType: number, info: number): Uint8Array {
+  let length = readLength(r, info);
+  if (length !== undefined) {
+    return r.bytes(length);
+  }
+
+  // Indefinite length: a sequence of definite-length chunks of the same major type.
+  let chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    let initial = r.u8();
+    if (initial === 0xff) break;
+    if ((initial >> 5) !== majorType) {
+      throw new TypeError("CborCodec.decode: invalid chunk in indefinite-length string");
+    }
+    let chunkLength = readLength(r, initial & 0x1f);
+    if (chunkLength === undefined) {
+      throw new TypeError("CborCodec.decode: nested indefinite-length string");
+    }
+    let chunk = r.bytes(chunkLength);
+    chunks.push(chunk);
+    total += chunk.length;
+  }
+  let result = new Uint8Array(total);
+  let offset = 0;
+  for (let chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function readTag(r: ByteReader, tag: number | bigint, depth: number): unknown {
+  let content = readValue(r, depth + 1);
+  if (content === BREAK) {
+    throw new TypeError("CborCodec.decode: unexpected break");
+  }
+  switch (tag) {
+    case TAG_DATE_STRING:
+      if (typeof content !== "string") break;
+      return new Date(content);
+    case TAG_DATE_EPOCH:
+      if (typeof content !== "number") break;
+      return new Date(Math.round(content * 1000));
+    case TAG_POSITIVE_BIGNUM:
+      if (!(content instanceof Uint8Array)) break;
+      return bytesToBigint(content, false);
+    case TAG_NEGATIVE_BIGNUM:
+      if (!(content instanceof Uint8Array)) break;
+      return -1n - bytesToBigint(content, false);
+    case TAG_UINT8_CLAMPED:
+      if (!(content instanceof Uint8Array)) break;
+      return new Uint8ClampedArray(content.buffer, content.byteOffset, content.byteLength);
+    case TAG_SELF_DESCRIBED:
+      return content;
+    default: {
+      let typed = typeof tag === "number" ? TYPED_ARRAYS_BY_TAG.get(tag) : undefined;
+      if (!typed || !(content instanceof Uint8Array)) break;
+      let { info, littleEndian } = typed;
+      if (content.length % info.size !== 0) break;
+      // `content` is already a copy, but may not be aligned, so copy again into a fresh buffer.
+      let bytes = littleEndian === PLATFORM_LITTLE_ENDIAN || info.size === 1
+          ? content.slice() : swapBytes(content, info.size);
+      return new info.ctor(bytes.buffer);
+    }
+  }
+  throw new TypeError(`CborCodec.decode: invalid or unsupported tag ${tag}`);
+}
+
+function readValue(r: ByteReader, depth: number): unknown {
+  if (depth >= 128) {
+    throw new TypeError("CborCodec.decode: message exceeded maximum nesting depth");
+  }
+
+  let initial = r.u8();
+  let majorType = initial >> 5;
+  let info = initial & 0x1f;
+
+  switch (majorType) {
+    case MT_UINT: {
+      let x = readArgument(r, info);
+      if (x === undefined) break;
+      return x;
+    }
+    case MT_NEGINT: {
+      let x = readArgument(r, info);
+      if (x === undefined) break;
+      if (typeof x === "bigint") {
+        return -1n - x;
+      }
+      let result = -1 - x;
+      return Number.isSafeInteger(result) ? result : -1n - BigInt(x);
+    }
+    case MT_BYTES:
+      return readChunks(r, MT_BYTES, info).slice();
+    case MT_TEXT:
+      return textDecoder.decode(readChunks(r, MT_TEXT, info));
+    case MT_ARRAY: {
+      let length = readLength(r, info);
+      let result: unknown[] = [];
+      for (let i = 0; length === undefined || i < length; i++) {
+        let item = readValue(r, depth + 1);
+        if (item === BREAK) {
+          if (length !== undefined) {
+            throw new TypeError("CborCodec.decode: unexpected break");
+          }
+          return result;
+        }
+        result.push(item);
+      }
+      return result;
+    }
+    case MT_MAP: {
+      let length = readLength(r, info);
+      let result: Record<string, unknown> = {};
+      for (let i = 0; length === undefined || i < length; i++) {
+        let key = readValue(r, depth + 1);
+        if (key === BREAK && length === undefined) {
+          return result;
+        }
+        if (typeof key !== "string" && typeof key !== "number") {
+          throw new TypeError("CborCodec.decode: map keys must be strings or numbers");
+        }
+        let value = readValue(r, depth + 1);
+        if (value === BREAK) {
+          throw new TypeError("CborCodec.decode: unexpected break");
+        }
+        // Use defineProperty() so that a key like `__proto__` becomes an own property, like it
+        // would with JSON.parse(), rather than invoking the prototype setter.
+        Object.defineProperty(result, key, {
+          value,
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+      }
+      return result;
+    }
+    case MT_TAG: {
+      let tag = readArgument(r, info);
+      if (tag === undefined) break;
+      return readTag(r, tag, depth);
+    }
+    case MT_SIMPLE:
+      switch (info) {
+        case 20: return false;
+        case 21: return true;
+        case 22: return null;
+        case 23: return undefined;
+        case 25: return r.f16();
+        case 26: return r.f32();
+        case 27: return r.f64();
+        case 31: return BREAK;
+      }
+      break;
+  }
+
+  throw new TypeError(`CborCodec.decode: invalid initial byte 0x${initial.toString(16)}`);
+}
+
+/**
+ * Encodes RPC messages as CBOR (RFC 8949) binary frames.
+ *
+ * Dates (tag 1), bigints (bignum tags 2 and 3), typed arrays (RFC 8746 tags), `undefined`, NaN
+ * and the infinities are carried natively, so they don't need to be tagged by the devaluator. This
+ * makes it easy to talk to non-JavaScript peers that already speak CBOR. It pairs naturally with
+ * the stream transport, e.g. `newStreamRpcSession(stream, main, { codec: CBOR_CODEC })`.
+ *
+ * Integers that don't fit in a safe JavaScript number are decoded as bigints.
+ */
+export class CborCodec implements Codec {
+  readonly name = "cbor";
+
+  encode(message: any): WireMessage {
+    let w = new ByteWriter();
+    writeValue(w, message, 0);
+    return w.finish();
+  }
+
+  decode(wire: WireMessage): any {
+    if (!(wire instanceof Uint8Array || wire instanceof ArrayBuffer)) {
+      throw new TypeError("CborCodec.decode expected Uint8Array or ArrayBuffer wire payload");
+    }
+    let r = new ByteReader(wire instanceof Uint8Array ? wire : new Uint8Array(wire));
+    let result = readValue(r, 0);
+    if (result === BREAK || !r.atEnd()) {
+      throw new TypeError("CborCodec.decode: unexpected data after message");
+    }
+    return result;
+  }
+
+  typeForRpc(value: unknown): TypeForRpc {
+    if (typeof value === "object" && value !== null && isRawSubtreeBranded(value) &&
+        (value[RAW_SUBTREE_BRAND] & ~SUPPORTED_RAW_FEATURES) === 0) {
+      return "raw-subtree";
+    }
+
+    const base = JSON_CODEC.typeForRpc(value);
+    switch (base) {
+      case "primitive":
+      case "bigint":
+      case "date":
+      case "bytes":
+      case "undefined":
+        return "raw";
+      default:
+        return base;
+    }
+  }
+}
+
+export const CBOR_CODEC = new CborCodec();
@@ -0,0 +1,555 @@
+import type { Codec, WireMessage } from "../codec.js";
+import type { TypeForRpc } from "../core.js";
+
+// Frames produced by `CompressedCodec` start with a flag byte made of these bits, followed by the
+// inner codec's message, deflated if the `COMPRESSED` bit is set.
+const COMPRESSED = 1 << 0;
+const TEXT = 1 << 1;  // The inner codec produced a string, which is sent as UTF-8.
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export interface CompressionOptions {
+  // Messages smaller than this many bytes are sent uncompressed, as compressing them would cost
+  // more time than it saves on the wire. Defaults to 1024.
+  threshold?: number;
+
+  // If true, messages are compressed and decompressed with the platform's `CompressionStream` and
+  // `DecompressionStream` rather than the built-in implementation, which compresses better and
+  // faster but makes the codec asynchronous, so it can't be used with `serialize()`. Either way,
+  // the wire format is the same.
+  native?: boolean;
+
+  // Messages that would decompress to more than this many bytes fail to decode, so that a small
+  // malicious message (a "zip bomb") can't exhaust memory. Defaults to 64 MiB.
+  maxDecompressedSize?: number;
+}
+
+/**
+ * Wraps a codec, deflating messages above a size threshold. Useful on transports without
+ * compression of their own, e.g. WebSockets without per-message deflate, especially for text
+ * codecs like JSON.
+ *
+ * Messages are compressed as raw DEFLATE (RFC 1951), the "deflate-raw" format of
+ * `CompressionStream`, so that peers can decompress them with any implementation. By default, a
+ * built-in compressor is used so that the codec stays synchronous, see `CompressionOptions.native`.
+ *
+ * Both peers must wrap the same inner codec, which may be asynchronous. The wrapped codec always
+ * produces binary messages.
+ */
+export class CompressedCodec implements Codec {
+  constructor(private inner: Codec, options: CompressionOptions = {}) {
+    this.threshold = options.threshold ?? 1024;
+    this.native = options.native ?? false;
+    this.maxDecompressedSize = options.maxDecompressedSize ?? 64 * 1024 * 1024;
+  }
+
+  private threshold: number;
+  private native: boolean;
+  private maxDecompressedSize: number;
+
+  get name() {
+    return `${this.inner.name}+deflate`;
+  }
+
+  readonly disableAttachments = true;
+
+  encode(message: any): WireMessage | Promise<WireMessage> {
+    let wire = this.inner.encode(message);
+    return wire instanceof Promise ? wire.then(wire => this.frame(wire)) : this.frame(wire);
+  }
+
+  // Produces the frame for the inner codec's message, asynchronously if `native` is set.
+  private frame(wire: WireMessage): Uint8Array | Promise<Uint8Array> {
+    let flags = 0;
+    let bytes: Uint8Array;
+    if (typeof wire === "string") {
+      flags |= TEXT;
+      bytes = textEncoder.encode(wire);
+    } else if (wire instanceof Uint8Array) {
+      bytes = wire;
+    } else if (wire instanceof ArrayBuffer) {
+      bytes = new Uint8Array(wire);
+    } else {
+      throw new TypeError("CompressedCodec requires a codec that encodes to strings or bytes");
+    }
+
+    let finish = (deflated?: Uint8Array) => {
+      if (deflated && deflated.length < bytes.length) {
+        flags |= COMPRESSED;
+        bytes = deflated;
+      }
+      let frame = new Uint8Array(bytes.length + 1);
+      frame[0] = flags;
+      frame.set(bytes, 1);
+      return frame;
+    };
+
+    if (bytes.length < this.threshold) {
+      return finish();
+    } else if (this.native) {
+      return transform(bytes, new CompressionStream("deflate-raw")).then(finish);
+    } else {
+      return finish(deflate(bytes));
+    }
+  }
+
+  decode(wire: WireMessage): any {
+    if (!(wire instanceof Uint8Array || wire instanceof ArrayBuffer)) {
+      throw new TypeError("CompressedCodec.decode expected Uint8Array or ArrayBuffer wire payload");
+    }
+    let frame = wire instanceof Uint8Array ? wire : new Uint8Array(wire);
+    if (frame.length === 0 || (frame[0] & ~(COMPRESSED | TEXT)) !== 0) {
+      throw new TypeError("CompressedCodec.decode: invalid frame header");
+    }
+
+    let flags = frame[0];
+    let bytes = frame.subarray(1);
+    let finish = (bytes: Uint8Array) =>
+        this.inner.decode(flags & TEXT ? textDecoder.decode(bytes) : bytes);
+
+    if (!(flags & COMPRESSED)) {
+      return finish(bytes);
+    } else if (this.native) {
+      return transform(bytes, new DecompressionStream("deflate-raw"), this.maxDecompressedSize)
+          .then(finish);
+    } else {
+      return finish(inflate(bytes, this.maxDecompressedSize));
+    }
+  }
+
+  typeForRpc(value: unknown): TypeForRpc {
+    return this.inner.typeForRpc(value);
+  }
+}
+
+/**
+ * Returns `codec` wrapped to deflate messages above a size threshold, see `CompressedCodec`.
+ *
+ *     newWebSocketRpcSession(url, localMain, { codec: compressed(JSON_CODEC, {threshold: 4096}) })
+ */
+export function compressed(codec: Codec, options?: CompressionOptions): CompressedCodec {
+  return new CompressedCodec(codec, options);
+}
+
+// Runs `bytes` through a `CompressionStream` or `DecompressionStream`, failing if the output
+// exceeds `maxLength` bytes.
+async function transform(bytes: Uint8Array, stream: TransformStream<BufferSource, Uint8Array>,
+                         maxLength = Infinity): Promise<Uint8Array> {
+  let writer = stream.writable.getWriter();
+  writer.write(<BufferSource>bytes).catch(() => {});
+  writer.close().catch(() => {});
+
+  let chunks: Uint8Array[] = [];
+  let length = 0;
+  for (let reader = stream.readable.getReader();;) {
+    let chunk = await reader.read();
+    if (chunk.done) break;
+    chunks.push(chunk.value);
+    length += chunk.value.length;
+    if (length > maxLength) {
+      reader.cancel().catch(() => {});
+      throw tooLarge(maxLength);
+    }
+  }
+
+  let result = new Uint8Array(length);
+  let offset = 0;
+  for (let chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+// =======================================================================================
+// DEFLATE (RFC 1951)
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+  163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049,
+  3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+
+// Order in which code length code lengths are sent in a dynamic block header.
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const HASH_BITS = 15;
+
+// How many earlier occurrences of a 3-byte sequence to consider when looking for a match. Higher
+// values find longer matches at the cost of speed.
+const MAX_CHAIN = 64;
+
+// Code lengths of the fixed Huffman codes (block type 1).
+const FIXED_LITERAL_LENGTHS = new Uint8Array(288).fill(8, 0, 144).fill(9, 144, 256)
+    .fill(7, 256, 280).fill(8, 280, 288);
+const FIXED_DISTANCE_LENGTHS = new Uint8Array(30).fill(5);
+
+// Computes the canonical Huffman codes for the given code lengths, bit-reversed since DEFLATE
+// writes them most significant bit first into an otherwise least significant bit first stream.
+function huffmanCodes(lengths: Uint8Array): Uint16Array {
+  let counts = new Uint16Array(16);
+  for (let length of lengths) {
+    ++counts[length];
+  }
+  counts[0] = 0;
+
+  let next = new Uint16Array(16);
+  let code = 0;
+  for (let length = 1; length < 16; length++) {
+    code = (code + counts[length - 1]) << 1;
+    next[length] = code;
+  }
+
+  let codes = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    let length = lengths[symbol];
+    if (length > 0) {
+      let c = next[length]++;
+      let reversed = 0;
+      for (let i = 0; i < length; i++) {
+        reversed = (reversed << 1) | (c & 1);
+        c >>= 1;
+      }
+      codes[symbol] = reversed;
+    }
+  }
+  return codes;
+}
+
+const FIXED_LITERAL_CODES = huffmanCodes(FIXED_LITERAL_LENGTHS);
+const FIXED_DISTANCE_CODES = huffmanCodes(FIXED_DISTANCE_LENGTHS);
+
+// Index into LENGTH_BASE for each match length.
+const LENGTH_CODE = new Uint8Array(MAX_MATCH + 1);
+for (let code = 0; code < LENGTH_BASE.length; code++) {
+  let end = code + 1 < LENGTH_BASE.length ? LENGTH_BASE[code + 1] : MAX_MATCH + 1;
+  LENGTH_CODE.fill(code, LENGTH_BASE[code], end);
+}
+
+function distanceCode(distance: number): number {
+  let code = DIST_BASE.length - 1;
+  while (DIST_BASE[code] > distance) {
+    --code;
+  }
+  return code;
+}
+
+class BitWriter {
+  private buffer = new Uint8Array(1024);
+  private pos = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  // Writes the low `count` bits of `value`, least significant first. `count` must be at most 16.
+  bits(value: number, count: number) {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      if (this.pos === this.buffer.length) {
+        let newBuffer = new Uint8Array(this.buffer.length * 2);
+        newBuffer.set(this.buffer);
+        this.buffer = newBuffer;
+      }
+      this.buffer[this.pos++] = this.bitBuffer & 0xff;
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  finish(): Uint8Array {
+    if (this.bitCount > 0) {
+      this.bits(0, 8 - this.bitCount);
+    }
+    return this.buffer.subarray(0, this.pos);
+  }
+}
+
+// Compresses `data` as a single block with the fixed Huffman codes, finding repeated sequences
+// with hash chains.
+function deflate(data: Uint8Array): Uint8Array {
+  let out = new BitWriter();
+  out.bits(1, 1);  // BFINAL
+  out.bits(1, 2);  // BTYPE = fixed Huffman codes
+
+  let literal = (symbol: number) => {
+    out.bits(FIXED_LITERAL_CODES[symbol], FIXED_LITERAL_LENGTHS[symbol]);
+  };
+
+  let head = new Int32Array(1 << HASH_BITS).fill(-1);
+  let prev = new Int32Array(WINDOW_SIZE);
+  let hash = (i: number) =>
+      ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & ((1 << HASH_BITS) - 1);
+  let insert = (i: number) => {
+    if (i + MIN_MATCH <= data.length) {
+      let h = hash(i);
+      prev[i & (WINDOW_SIZE - 1)] = head[h];
+      head[h] = i;
+    }
+  };
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (i + MIN_MATCH <= data.length) {
+      let maxLength = Math.min(MAX_MATCH, data.length - i);
+      let candidate = head[hash(i)];
+      for (let chain = MAX_CHAIN; candidate >= 0 && i - candidate <= WINDOW_SIZE && chain > 0;
+           chain--) {
+        if (data[candidate + bestLength] === data[i + bestLength]) {
+          let length = 0;
+          while (length < maxLength && data[candidate + length] === data[i + length]) {
+            ++length;
+          }
+          if (length > bestLength) {
+            bestLength = length;
+            bestDistance = i - candidate;
+            if (length === maxLength) break;
+          }
+        }
+        candidate = prev[candidate & (WINDOW_SIZE - 1)];
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      let lengthCode = LENGTH_CODE[bestLength];
+      literal(257 + lengthCode);
+      out.bits(bestLength - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+      let distCode = distanceCode(bestDistance);
+      out.bits(FIXED_DISTANCE_CODES[distCode], FIXED_DISTANCE_LENGTHS[distCode]);
+      out.bits(bestDistance - DIST_BASE[distCode], DIST_EXTRA[distCode]);
+      for (let end = i + bestLength; i < end; i++) {
+        insert(i);
+      }
+    } else {
+      literal(data[i]);
+      insert(i);
+      ++i;
+    }
+  }
+
+  literal(256);  // end of block
+  return out.finish();
+}
+
+class BitReader {
+  constructor(private data: Uint8Array) {}
+
+  private pos = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  // Reads `count` bits, least significant first. `count` must be at most 16.
+  bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.pos >= this.data.length) {
+        throw new TypeError("inflate: unexpected end of data");
+      }
+      this.bitBuffer |= this.data[this.pos++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    let value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  // Skips to the next byte boundary and returns the following `length` bytes.
+  bytes(length: number): Uint8Array {
+    // Whole bytes may have been read into the bit buffer already.
+    this.pos -= this.bitCount >> 3;
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    if (this.pos + length > this.data.length) {
+      throw new TypeError("inflate: unexpected end of data");
+    }
+    let result = this.data.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return result;
+  }
+}
+
+// A Huffman code for decoding: the number of codes of each length, and the symbols in order of
+// their codes.
+type HuffmanTable = { counts: Uint16Array, symbols: Uint16Array };
+
+function huffmanTable(lengths: Uint8Array): HuffmanTable {
+  let counts = new Uint16Array(16);
+  for (let length of lengths) {
+    ++counts[length];
+  }
+  let offsets = new Uint16Array(16);
+  for (let length = 1; length < 15; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  let symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] > 0) {
+      symbols[offsets[lengths[symbol]]++] = symbol;
+    }
+  }
+  return { counts, symbols };
+}
+
+const FIXED_LITERAL_TABLE = huffmanTable(FIXED_LITERAL_LENGTHS);
+const FIXED_DISTANCE_TABLE = huffmanTable(FIXED_DISTANCE_LENGTHS);
+
+function decodeSymbol(input: BitReader, table: HuffmanTable): number {
+  // Canonical codes of each length are consecutive, so compare the code read so far against the
+  // range of codes of that length.
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let length = 1; length < 16; length++) {
+    code |= input.bits(1);
+    let count = table.counts[length];
+    if (code - first < count) {
+      return table.symbols[index + code - first];
+    }
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new TypeError("inflate: invalid Huffman code");
+}
+
+// Reads the code lengths of a dynamic block's Huffman codes and builds the tables.
+function readDynamicTables(input: BitReader): [HuffmanTable, HuffmanTable] {
+  let literalCount = input.bits(5) + 257;
+  let distanceCount = input.bits(5) + 1;
+  let codeLengthCount = input.bits(4) + 4;
+
+  let codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = input.bits(3);
+  }
+  let codeLengthTable = huffmanTable(codeLengthLengths);
+
+  let lengths = new Uint8Array(literalCount + distanceCount);
+  let i = 0;
+  while (i < lengths.length) {
+    let symbol = decodeSymbol(input, codeLengthTable);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+
+    let value = 0;
+    let repeat: number;
+    if (symbol === 16) {
+      if (i === 0) throw new TypeError("inflate: repeated code length without a previous one");
+      value = lengths[i - 1];
+      repeat = 3 + input.bits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + input.bits(3);
+    } else {
+      repeat = 11 + input.bits(7);
+    }
+    if (i + repeat > lengths.length) {
+      throw new TypeError("inflate: too many code lengths");
+    }
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+
+  return [huffmanTable(lengths.subarray(0, literalCount)),
+          huffmanTable(lengths.subarray(literalCount))];
+}
+
+function tooLarge(maxLength: number): RangeError {
+  return new RangeError(
+      `CompressedCodec.decode: message decompresses to more than ${maxLength} bytes`);
+}
+
+// Decompresses raw DEFLATE data, as produced by `deflate()` or by any other implementation,
+// failing if the output would exceed `maxLength` bytes.
+function inflate(data: Uint8Array, maxLength = Infinity): Uint8Array {
+  let input = new BitReader(data);
+  let out = new Uint8Array(Math.min(Math.max(data.length * 4, 1024), maxLength));
+  let pos = 0;
+
+  let ensure = (n: number) => {
+    if (pos + n > maxLength) {
+      throw tooLarge(maxLength);
+    }
+    if (pos + n > out.length) {
+      let newOut = new Uint8Array(Math.min(Math.max(out.length * 2, pos + n), maxLength));
+      newOut.set(out);
+      out = newOut;
+    }
+  };
+
+  let final = false;
+  while (!final) {
+    final = input.bits(1) === 1;
+    let type = input.bits(2);
+
+    if (type === 0) {
+      // Stored block.
+      let header = input.bytes(4);
+      let length = header[0] | (header[1] << 8);
+      if ((length ^ (header[2] | (header[3] << 8))) !== 0xffff) {
+        throw new TypeError("inflate: invalid stored block length");
+      }
+      ensure(length);
+      out.set(input.bytes(length), pos);
+      pos += length;
+      continue;
+    }
+
+    let literalTable: HuffmanTable;
+    let distanceTable: HuffmanTable;
+    if (type === 1) {
+      literalTable = FIXED_LITERAL_TABLE;
+      distanceTable = FIXED_DISTANCE_TABLE;
+    } else if (type === 2) {
+      [literalTable, distanceTable] = readDynamicTables(input);
+    } else {
+      throw new TypeError("inflate: invalid block type");
+    }
+
+    for (;;) {
+      let symbol = decodeSymbol(input, literalTable);
+      if (symbol < 256) {
+        ensure(1);
+        out[pos++] = symbol;
+      } else if (symbol === 256) {
+        break;
+      } else {
+        let lengthCode = symbol - 257;
+        if (lengthCode >= LENGTH_BASE.length) {
+          throw new TypeError("inflate: invalid length code");
+        }
+        let length = LENGTH_BASE[lengthCode] + input.bits(LENGTH_EXTRA[lengthCode]);
+        let distCode = decodeSymbol(input, distanceTable);
+        if (distCode >= DIST_BASE.length) {
+          throw new TypeError("inflate: invalid distance code");
+        }
+        let distance = DIST_BASE[distCode] + input.bits(DIST_EXTRA[distCode]);
+        if (distance > pos) {
+          throw new TypeError("inflate: distance too far back");
+        }
+        ensure(length);
+        // Byte by byte, since the match may overlap the bytes being written.
+        for (let end = pos + length; pos < end; pos++) {
+          out[pos] = out[pos - distance];
+        }
+      }
+    }
+  }
+
+  return out.subarray(0, pos);
+}
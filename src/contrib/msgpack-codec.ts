@@ -0,0 +1,339 @@
+import { Codec, WireMessage, JSON_CODEC, isRawSubtreeBranded } from "../codec.js";
+import { type TypeForRpc } from "../core.js";
+import { RawFeatures } from "../serialize.js";
+import { RAW_SUBTREE_BRAND } from "../symbols.js";
+import { ByteReader, ByteWriter, bigintToBytes, bytesToBigint } from "./byte-buffer.js";
+
+// MessagePack extension type codes used by this codec. -1 is the standard timestamp extension;
+// the others are application-defined (0-127), and are only understood by other Cap'n Web peers.
+const EXT_TIMESTAMP = -1;
+const EXT_UNDEFINED = 0;
+const EXT_BIGINT = 1;
+const EXT_TYPED_ARRAY = 2;
+
+// Element types for EXT_TYPED_ARRAY. The first byte of the extension payload is the index into
+// this list. (Plain Uint8Array is encoded using the native "bin" format instead.) Float16Array is
+// appended at the end since it doesn't exist in all runtimes.
+const TYPED_ARRAY_TYPES: any[] = [
+  Uint8ClampedArray, Uint16Array, Uint32Array, Int8Array, Int16Array, Int32Array,
+  Float32Array, Float64Array, BigInt64Array, BigUint64Array, globalThis.Float16Array,
+];
+
+// Raw subtrees may contain anything that MessagePack can encode natively or via the extensions
+// above.
+const SUPPORTED_RAW_FEATURES =
+    RawFeatures.Date | RawFeatures.Uint8Array | RawFeatures.BigInt | RawFeatures.TypedArrays;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function writeExt(w: ByteWriter, type: number, data: Uint8Array) {
+  switch (data.length) {
+    case 1: w.u8(0xd4); break;
+    case 2: w.u8(0xd5); break;
+    case 4: w.u8(0xd6); break;
+    case 8: w.u8(0xd7); break;
+    case 16: w.u8(0xd8); break;
+    default:
+      if (data.length < 0x100) {
+        w.u8(0xc7); w.u8(data.length);
+      } else if (data.length < 0x10000) {
+        w.u8(0xc8); w.u16(data.length);
+      } else {
+        w.u8(0xc9); w.u32(data.length);
+      }
+  }
+  w.i8(type);
+  w.bytes(data);
+}
+
+function writeLength(w: ByteWriter, length: number, fix: number, fixMax: number,
+                     op8: number | undefined, op16: number, op32: number) {
+  if (length <= fixMax) {
+    w.u8(fix | length);
+  } else if (op8 !== undefined && length < 0x100) {
+    w.u8(op8); w.u8(length);
+  } else if (length < 0x10000) {
+    w.u8(op16); w.u16(length);
+  } else {
+    w.u8(op32); w.u32(length);
+  }
+}
+
+function writeNumber(w: ByteWriter, x: number) {
+  if (Number.isInteger(x) && !Object.is(x, -0)) {
+    if (x >= 0) {
+      if (x < 0x80) { w.u8(x); return; }
+      if (x < 0x100) { w.u8(0xcc); w.u8(x); return; }
+      if (x < 0x10000) { w.u8(0xcd); w.u16(x); return; }
+      if (x < 0x100000000) { w.u8(0xce); w.u32(x); return; }
+      if (Number.isSafeInteger(x)) { w.u8(0xcf); w.u64(BigInt(x)); return; }
+    } else {
+      if (x >= -0x20) { w.i8(x); return; }
+      if (x >= -0x80) { w.u8(0xd0); w.i8(x); return; }
+      if (x >= -0x8000) { w.u8(0xd1); w.i16(x); return; }
+      if (x >= -0x80000000) { w.u8(0xd2); w.i32(x); return; }
+      if (Number.isSafeInteger(x)) { w.u8(0xd3); w.i64(BigInt(x)); return; }
+    }
+  }
+
+  // Everything else, including -0, NaN, and the infinities, is representable as float64.
+  w.u8(0xcb);
+  w.f64(x);
+}
+
+function writeDate(w: ByteWriter, date: Date) {
+  let ms = date.getTime();
+  let sec = Math.floor(ms / 1000);
+  let nsec = (ms - sec * 1000) * 1000000;
+  let data: Uint8Array;
+  if (sec >= 0 && sec < 2 ** 34) {
+    // timestamp 64: 30-bit nanoseconds followed by 34-bit seconds.
+    data = new Uint8Array(8);
+    let view = new DataView(data.buffer);
+    view.setBigUint64(0, (BigInt(nsec) << 34n) | BigInt(sec));
+  } else {
+    // timestamp 96: 32-bit nanoseconds followed by signed 64-bit seconds.
+    data = new Uint8Array(12);
+    let view = new DataView(data.buffer);
+    view.setUint32(0, nsec);
+    view.setBigInt64(4, BigInt(sec));
+  }
+  writeExt(w, EXT_TIMESTAMP, data);
+}
+
+function writeValue(w: ByteWriter, value: unknown, depth: number) {
+  if (depth >= 128) {
+    throw new Error("MsgPackCodec.encode: message exceeded maximum nesting depth.");
+  }
+
+  switch (typeof value) {
+    case "undefined":
+      writeExt(w, EXT_UNDEFINED, new Uint8Array(1));
+      return;
+    case "boolean":
+      w.u8(value ? 0xc3 : 0xc2);
+      return;
+    case "number":
+      writeNumber(w, value);
+      return;
+    case "bigint":
+      writeExt(w, EXT_BIGINT, bigintToBytes(value));
+      return;
+    case "string": {
+      let bytes = textEncoder.encode(value);
+      writeLength(w, bytes.length, 0xa0, 31, 0xd9, 0xda, 0xdb);
+      w.bytes(bytes);
+      return;
+    }
+    case "object":
+      break;
+    default:
+      throw new TypeError(`MsgPackCodec.encode: can't encode value of type ${typeof value}`);
+  }
+
+  if (value === null) {
+    w.u8(0xc0);
+  } else if (value instanceof Array) {
+    writeLength(w, value.length, 0x90, 15, undefined, 0xdc, 0xdd);
+    for (let item of value) {
+      writeValue(w, item, depth + 1);
+    }
+  } else if (value instanceof Uint8Array) {
+    writeLength(w, value.length, 0, -1, 0xc4, 0xc5, 0xc6);
+    w.bytes(value);
+  } else if (ArrayBuffer.isView(value)) {
+    let typeIndex = TYPED_ARRAY_TYPES.findIndex(ctor => ctor && value instanceof ctor);
+    if (typeIndex < 0) {
+      throw new TypeError("MsgPackCodec.encode: unsupported ArrayBufferView");
+    }
+    let data = new Uint8Array(value.byteLength + 1);
+    data[0] = typeIndex;
+    data.set(new Uint8Array(value.buffer, value.byteOffset, value.byteLength), 1);
+    writeExt(w, EXT_TYPED_ARRAY, data);
+  } else if (value instanceof Date) {
+    writeDate(w, value);
+  } else {
+    let keys = Object.keys(value);
+    writeLength(w, keys.length, 0x80, 15, undefined, 0xde, 0xdf);
+    for (let key of keys) {
+      writeValue(w, key, depth + 1);
+      writeValue(w, (<Record<string, unknown>>value)[key], depth + 1);
+    }
+  }
+}
+
+function int64ToNumber(x: bigint): number {
+  // Our encoder only uses 64-bit integers for safe integers, but other encoders might not.
+  let result = Number(x);
+  if (!Number.isSafeInteger(result)) {
+    throw new RangeError("MsgPackCodec.decode: integer exceeds Number.MAX_SAFE_INTEGER");
+  }
+  return result;
+}
+
+function readExt(r: ByteReader, length: number): unknown {
+  let type = r.i8();
+  let data = r.bytes(length);
+  switch (type) {
+    case EXT_TIMESTAMP: {
+      let view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      let sec: number, nsec: number;
+      if (length === 4) {
+        sec = view.getUint32(0);
+        nsec = 0;
+      } else if (length === 8) {
+        let x = view.getBigUint64(0);
+        sec = Number(x & 0x3ffffffffn);
+        nsec = Number(x >> 34n);
+      } else if (length === 12) {
+        nsec = view.getUint32(0);
+        sec = Number(view.getBigInt64(4));
+      } else {
+        throw new TypeError("MsgPackCodec.decode: invalid timestamp extension");
+      }
+      return new Date(sec * 1000 + Math.floor(nsec / 1000000));
+    }
+    case EXT_UNDEFINED:
+      return undefined;
+    case EXT_BIGINT:
+      return bytesToBigint(data, true);
+    case EXT_TYPED_ARRAY: {
+      let ctor = TYPED_ARRAY_TYPES[data[0]];
+      if (!ctor || (data.length - 1) % ctor.BYTES_PER_ELEMENT !== 0) {
+        throw new TypeError("MsgPackCodec.decode: invalid typed array extension");
+      }
+      // Copy into a fresh buffer to guarantee alignment.
+      let buffer = data.slice(1).buffer;
+      return new ctor(buffer);
+    }
+    default:
+      throw new TypeError(`MsgPackCodec.decode: unknown extension type ${type}`);
+  }
+}
+
+function readArray(r: ByteReader, length: number, depth: number): unknown[] {
+  let result = new Array(length);
+  for (let i = 0; i < length; i++) {
+    result[i] = readValue(r, depth + 1);
+  }
+  return result;
+}
+
+function readMap(r: ByteReader, length: number, depth: number): Record<string, unknown> {
+  let result: Record<string, unknown> = {};
+  for (let i = 0; i < length; i++) {
+    let key = readValue(r, depth + 1);
+    if (typeof key !== "string" && typeof key !== "number") {
+      throw new TypeError("MsgPackCodec.decode: map keys must be strings or numbers");
+    }
+    // Use defineProperty() so that a key like `__proto__` becomes an own property, like it would
+    // with JSON.parse(), rather than invoking the prototype setter.
+    Object.defineProperty(result, key, {
+      value: readValue(r, depth + 1),
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  }
+  return result;
+}
+
+function readValue(r: ByteReader, depth: number): unknown {
+  if (depth >= 128) {
+    throw new TypeError("MsgPackCodec.decode: message exceeded maximum nesting depth");
+  }
+
+  let op = r.u8();
+  if (op < 0x80) return op;
+  if (op < 0x90) return readMap(r, op & 0x0f, depth);
+  if (op < 0xa0) return readArray(r, op & 0x0f, depth);
+  if (op < 0xc0) return textDecoder.decode(r.bytes(op & 0x1f));
+  if (op >= 0xe0) return op - 0x100;
+
+  switch (op) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xc4: return r.bytes(r.u8()).slice();
+    case 0xc5: return r.bytes(r.u16()).slice();
+    case 0xc6: return r.bytes(r.u32()).slice();
+    case 0xc7: return readExt(r, r.u8());
+    case 0xc8: return readExt(r, r.u16());
+    case 0xc9: return readExt(r, r.u32());
+    case 0xca: return r.f32();
+    case 0xcb: return r.f64();
+    case 0xcc: return r.u8();
+    case 0xcd: return r.u16();
+    case 0xce: return r.u32();
+    case 0xcf: return int64ToNumber(r.u64());
+    case 0xd0: return r.i8();
+    case 0xd1: return r.i16();
+    case 0xd2: return r.i32();
+    case 0xd3: return int64ToNumber(r.i64());
+    case 0xd4: return readExt(r, 1);
+    case 0xd5: return readExt(r, 2);
+    case 0xd6: return readExt(r, 4);
+    case 0xd7: return readExt(r, 8);
+    case 0xd8: return readExt(r, 16);
+    case 0xd9: return textDecoder.decode(r.bytes(r.u8()));
+    case 0xda: return textDecoder.decode(r.bytes(r.u16()));
+    case 0xdb: return textDecoder.decode(r.bytes(r.u32()));
+    case 0xdc: return readArray(r, r.u16(), depth);
+    case 0xdd: return readArray(r, r.u32(), depth);
+    case 0xde: return readMap(r, r.u16(), depth);
+    case 0xdf: return readMap(r, r.u32(), depth);
+    default:
+      throw new TypeError(`MsgPackCodec.decode: invalid format byte 0x${op.toString(16)}`);
+  }
+}
+
+/**
+ * Encodes RPC messages as MessagePack binary frames.
+ *
+ * Dates, bigints, typed arrays and `undefined` are carried natively (as MessagePack timestamps
+ * and extension types), so they don't need to be tagged by the devaluator. Unlike the V8 codec,
+ * this works in any JavaScript runtime, and MessagePack implementations exist for most languages.
+ */
+export class MsgPackCodec implements Codec {
+  readonly name = "msgpack";
+
+  encode(message: any): WireMessage {
+    let w = new ByteWriter();
+    writeValue(w, message, 0);
+    return w.finish();
+  }
+
+  decode(wire: WireMessage): any {
+    if (!(wire instanceof Uint8Array || wire instanceof ArrayBuffer)) {
+      throw new TypeError("MsgPackCodec.decode expected Uint8Array or ArrayBuffer wire payload");
+    }
+    let r = new ByteReader(wire instanceof Uint8Array ? wire : new Uint8Array(wire));
+    let result = readValue(r, 0);
+    if (!r.atEnd()) {
+      throw new TypeError("MsgPackCodec.decode: trailing bytes after message");
+    }
+    return result;
+  }
+
+  typeForRpc(value: unknown): TypeForRpc {
+    if (typeof value === "object" && value !== null && isRawSubtreeBranded(value) &&
+        (value[RAW_SUBTREE_BRAND] & ~SUPPORTED_RAW_FEATURES) === 0) {
+      return "raw-subtree";
+    }
+
+    const base = JSON_CODEC.typeForRpc(value);
+    switch (base) {
+      case "primitive":
+      case "bigint":
+      case "date":
+      case "bytes":
+      case "undefined":
+        return "raw";
+      default:
+        return base;
+    }
+  }
+}
+
+export const MSGPACK_CODEC = new MsgPackCodec();
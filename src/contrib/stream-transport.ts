@@ -16,6 +16,7 @@ export interface FullDuplexStream {
  * endpoints that support full duplex binary streams.
  * The transport uses a minimal framing protocol to delimit messages and 
  * encodes messages using the V8 codec by default. 
+ * When the other end isn't Node (e.g. an embedded device), pass `{ codec: CBOR_CODEC }` instead.
  */
 export let newStreamRpcSession:<T extends RpcCompatible<T> = Empty>
     (stream: FullDuplexStream, localMain?: any, options?: RpcSessionOptions) => RpcStub<T> =
@@ -134,6 +135,16 @@ class StreamTransport implements RpcTransport {
     }
   }
 
+  close?(): void {
+    if (!this.#error) {
+      this.#error = new Error("RPC session was closed.");
+    }
+
+    // Closing the writer lets the queued writes finish first.
+    this.#writer.close().catch(() => {});
+    this.#reader.cancel().catch(() => {});
+  }
+
   abort?(reason: any): void {
     if (!this.#error) {
       this.#error = reason;
@@ -2,7 +2,7 @@ import * as v8 from "node:v8";
 
 import { Codec, WireMessage } from "../codec.js";
 import { POSTMESSAGE_CODEC } from "../postmessage-codec.js";
-import { type TypeForRpc } from "../core.js";
+import { JSON_CODEC, type TypeForRpc } from "../core.js";
 
 export class V8Codec implements Codec {
   readonly name: "v8" = "v8";
@@ -23,6 +23,11 @@ export class V8Codec implements Codec {
   }
 
   typeForRpc(value: unknown): TypeForRpc {
+    // Unlike structured clone, `v8.serialize()` can't handle Blobs.
+    let kind = JSON_CODEC.typeForRpc(value);
+    if (kind === "blob") {
+      return kind;
+    }
     return POSTMESSAGE_CODEC.typeForRpc(value);
   }
 }
@@ -2,7 +2,7 @@
 // Licensed under the MIT license found in the LICENSE.txt file or at:
 //     https://opensource.org/license/mit
 
-import type { __RPC_TARGET_BRAND } from "./types.js";
+import type { __RPC_TARGET_BRAND, RpcTargetBranded } from "./types.js";
 import { WORKERS_MODULE_SYMBOL } from "./symbols.js"
 
 import { Codec, JsonCodec, JSON_CODEC } from "./codec.js";
@@ -38,11 +38,33 @@ export interface RpcTarget {
 
 export let RpcTarget = workersModule ? workersModule.RpcTarget : class {};
 
+// Objects marked with `byReference()`.
+const BY_REFERENCE = new WeakSet<object>();
+
+/**
+ * Marks `value` to be passed by reference, like an `RpcTarget`, rather than copied, like
+ * `Comlink.proxy()`. The recipient gets a stub through which it can call the object's methods and
+ * read its properties. Unlike with an `RpcTarget`, the object's own properties are accessible too,
+ * so this works for plain objects such as `{ onProgress, onDone }` and for objects from libraries
+ * that can't be changed to extend `RpcTarget`. Returns `value` itself, so it can be used inline.
+ */
+export function byReference<T extends object>(value: T): T & RpcTargetBranded {
+  BY_REFERENCE.add(value);
+  return <T & RpcTargetBranded>value;
+}
+
+export function isByReference(value: object): boolean {
+  return BY_REFERENCE.has(value);
+}
+
 export type PropertyPath = (string | number)[];
 
 export type TypeForRpc = "unsupported" | "primitive" | "object" | "function" | "array" | "date" |
     "bigint" | "bytes" | "stub" | "rpc-promise" | "rpc-target" | "rpc-thenable" | "error" |
-    "error-raw" | "undefined" | "raw" | "raw-subtree" | "abort-signal" | "native-promise";
+    "error-raw" | "undefined" | "raw" | "raw-subtree" | "abort-signal" | "native-promise" | "map" |
+    "set" | "custom" | "readable-stream" | "writable-stream" | "async-iterable" | "headers" |
+    "request" | "response" | "blob" | "regexp" | "array-buffer" | "data-view" | "boxed" |
+    "instance";
 
 export const typeForRpc = JSON_CODEC.typeForRpc;
 
@@ -146,7 +168,21 @@ export abstract class StubHook {
   // a disposed payload) or it may reject. It's safe to call dispose() multiple times.
   abstract dispose(): void;
 
+  // Optionally implemented by hooks that can be disposed gracefully, waiting for outstanding work
+  // to finish, e.g. a session's main stub. Stubs wrapping such a hook support `Symbol.asyncDispose`.
+  asyncDispose?(): Promise<void>;
+
   abstract onBroken(callback: (error: any) => void): void;
+
+  // Calls `callback` once all calls previously made on this hook have been passed on to where
+  // they're going: to a local object, or to a session which sends them to its peer. Calls made on
+  // a promise wait for it to resolve first, so this may take a while. Used to implement
+  // embargoes (see `RpcSessionImpl.embargo()`).
+  //
+  // Hooks that pass calls on immediately can use this default implementation.
+  whenCallsForwarded(callback: () => void): void {
+    callback();
+  }
 }
 
 export class ErrorStubHook extends StubHook {
@@ -190,7 +226,7 @@ export function withCallInterceptor<T>(interceptor: CallInterceptor, callback: (
 }
 
 // Private symbol which may be used to unwrap the real stub through the Proxy.
-let RAW_STUB = Symbol("realStub");
+const RAW_STUB = Symbol("realStub");
 
 export interface RpcStub extends Disposable {
   // Declare magic `RAW_STUB` key that unwraps the proxy.
@@ -227,6 +263,13 @@ const PROXY_HANDLERS: ProxyHandler<{raw: RpcStub}> = {
         stub.hook.dispose();
         stub.hook = DISPOSED_HOOK;
       };
+    } else if (prop === Symbol.asyncDispose && stub.hook.asyncDispose &&
+          (!stub.pathIfPromise || stub.pathIfPromise.length == 0)) {
+      return () => {
+        let hook = stub.hook;
+        stub.hook = DISPOSED_HOOK;
+        return hook.asyncDispose!();
+      };
     } else {
       return undefined;
     }
@@ -243,6 +286,9 @@ const PROXY_HANDLERS: ProxyHandler<{raw: RpcStub}> = {
     } else if (prop === Symbol.dispose &&
           (!stub.pathIfPromise || stub.pathIfPromise.length == 0)) {
       return true;
+    } else if (prop === Symbol.asyncDispose && stub.hook.asyncDispose &&
+          (!stub.pathIfPromise || stub.pathIfPromise.length == 0)) {
+      return true;
     } else {
       return false;
     }
@@ -387,6 +433,21 @@ export class RpcPromise extends RpcStub {
     return pullPromise(this).finally(...arguments);
   }
 
+  // Allows `for await (let x of stub.method())` when the method returns an async iterable, without
+  // first awaiting the promise separately.
+  //
+  // Whether the result is iterable isn't known until it arrives, so every RpcPromise has this
+  // method, and code that feature-tests for `Symbol.asyncIterator` will see all of them as async
+  // iterables. (The TypeScript types only offer it for results declared as async iterables.)
+  // Iterating a promise for anything else throws a TypeError once it resolves.
+  async *[Symbol.asyncIterator](): AsyncGenerator<unknown, unknown, unknown> {
+    let iterable = await pullPromise(this);
+    if (!iterable || typeof (<any>iterable)[Symbol.asyncIterator] !== "function") {
+      throw new TypeError("Can't iterate over an RPC result that isn't an async iterable.");
+    }
+    return yield* <AsyncIterable<unknown>>iterable;
+  }
+
   toString() {
     return "[object RpcPromise]";
   }
@@ -483,6 +544,80 @@ async function pullPromise(promise: RpcPromise): Promise<unknown> {
 
 export type LocatedPromise = {parent: object, property: string | number, promise: RpcPromise};
 
+// Promises are substituted with their resolutions by assigning `parent[property]`, which doesn't
+// work for members of a Map or Set. Instead, a promise found inside a collection is located with
+// a `CollectionSlot` as its parent and "key" or "value" as its property. Assigning to the slot
+// replaces the corresponding member of the collection.
+export class CollectionSlot {
+  constructor(private slots: CollectionSlots) {}
+
+  // The current key (or Set element) and value of this entry. Must be filled in by the creator
+  // once they are known, before the slot is added to its `CollectionSlots`.
+  public currentKey: unknown;
+  public currentValue: unknown;
+
+  set key(newKey: unknown) {
+    this.currentKey = newKey;
+    this.slots.keyResolved();
+  }
+
+  set value(newValue: unknown) {
+    this.currentValue = newValue;
+    this.slots.valueResolved(this);
+  }
+}
+
+// The slots of all the members of one Map or Set, in order. Since a key can't be replaced without
+// moving it to the end, the collection is rebuilt once, in the original order, when the last
+// promise among its keys has resolved. If that makes keys collide, the delivery fails, rather than
+// silently merging members.
+export class CollectionSlots {
+  constructor(private collection: Map<unknown, unknown> | Set<unknown>) {}
+
+  private slots: CollectionSlot[] = [];
+  private pendingKeys = 0;
+
+  add(slot: CollectionSlot) {
+    this.slots.push(slot);
+    if (slot.currentKey instanceof RpcPromise) {
+      ++this.pendingKeys;
+    }
+    this.insert(slot);
+  }
+
+  keyResolved() {
+    if (--this.pendingKeys > 0) {
+      return;
+    }
+
+    let size = this.collection.size;
+    this.collection.clear();
+    for (let slot of this.slots) {
+      this.insert(slot);
+    }
+    if (this.collection.size < size) {
+      throw new TypeError(this.collection instanceof Map
+          ? "Map keys collide once the promises among them have resolved."
+          : "Set elements collide once the promises among them have resolved.");
+    }
+  }
+
+  valueResolved(slot: CollectionSlot) {
+    // Otherwise, the value is filled in when the collection is rebuilt.
+    if (this.pendingKeys == 0) {
+      this.insert(slot);
+    }
+  }
+
+  private insert(slot: CollectionSlot) {
+    if (this.collection instanceof Map) {
+      this.collection.set(slot.currentKey, slot.currentValue);
+    } else {
+      this.collection.add(slot.currentKey);
+    }
+  }
+}
+
 // Represents the params to an RPC call, or the resolution of an RPC promise, as it passes
 // through the system.
 //
@@ -710,9 +845,12 @@ export class RpcPayload {
     );
   }
 
+  // `copies` maps each object, array, map and set already copied to its copy, so that shared
+  // references (and cycles) are preserved.
   private deepCopy(
       value: unknown, oldParent: object | undefined, property: string | number, parent: object,
-      dupStubs: boolean, owner: RpcPayload | null): unknown {
+      dupStubs: boolean, owner: RpcPayload | null,
+      copies: Map<object, unknown> = new Map()): unknown {
     let kind = this.codec.typeForRpc(value);
     switch (kind) {
       case "unsupported":
@@ -725,6 +863,10 @@ export class RpcPayload {
       case "bigint":
       case "date":
       case "bytes":
+      case "array-buffer":
+      case "data-view":
+      case "regexp":
+      case "boxed":
       case "error":
       case "error-raw":
       case "undefined":
@@ -732,24 +874,65 @@ export class RpcPayload {
         // TODO: Should errors be copied if they have own properties?
         return value;
 
+      case "custom":
+      case "instance":
+        // Application-defined type. We don't know how to copy it, so we treat it as immutable,
+        // which is typically true of value types anyway.
+        return value;
+
       case "array": {
         // We have to construct the new array first, then fill it in, so we can pass it as the
         // parent.
         let array = <Array<unknown>>value;
+        if (copies.has(array)) return copies.get(array);
         let len = array.length;
         let result = new Array(len);
+        copies.set(array, result);
         for (let i = 0; i < len; i++) {
-          result[i] = this.deepCopy(array[i], array, i, result, dupStubs, owner);
+          if (i in array) {  // preserve holes
+            result[i] = this.deepCopy(array[i], array, i, result, dupStubs, owner, copies);
+          }
         }
         return result;
       }
 
       case "object": {
         // Plain object. Unfortunately there's no way to pre-allocate the right shape.
-        let result: Record<string, unknown> = {};
         let object = <Record<string, unknown>>value;
+        if (copies.has(object)) return copies.get(object);
+        let result: Record<string, unknown> = {};
+        copies.set(object, result);
         for (let i in object) {
-          result[i] = this.deepCopy(object[i], object, i, result, dupStubs, owner);
+          result[i] = this.deepCopy(object[i], object, i, result, dupStubs, owner, copies);
+        }
+        return result;
+      }
+
+      case "map": {
+        let map = <Map<unknown, unknown>>value;
+        if (copies.has(map)) return copies.get(map);
+        let result = new Map<unknown, unknown>();
+        copies.set(map, result);
+        let slots = new CollectionSlots(result);
+        for (let [k, v] of map) {
+          let slot = new CollectionSlot(slots);
+          slot.currentKey = this.deepCopy(k, map, "key", slot, dupStubs, owner, copies);
+          slot.currentValue = this.deepCopy(v, map, "value", slot, dupStubs, owner, copies);
+          slots.add(slot);
+        }
+        return result;
+      }
+
+      case "set": {
+        let set = <Set<unknown>>value;
+        if (copies.has(set)) return copies.get(set);
+        let result = new Set<unknown>();
+        copies.set(set, result);
+        let slots = new CollectionSlots(result);
+        for (let e of set) {
+          let slot = new CollectionSlot(slots);
+          slot.currentKey = this.deepCopy(e, set, "key", slot, dupStubs, owner, copies);
+          slots.add(slot);
         }
         return result;
       }
@@ -801,6 +984,13 @@ export class RpcPayload {
 
       case "native-promise":
       case "abort-signal":
+      case "readable-stream":
+      case "writable-stream":
+      case "async-iterable":
+      case "headers":
+      case "request":
+      case "response":
+      case "blob":
         return value;
 
       default:
@@ -989,8 +1179,10 @@ export class RpcPayload {
     this.promises = [];
   }
 
-  // Recursive dispose, called only when `source` is "return".
-  private disposeImpl(value: unknown, parent: object | undefined) {
+  // Recursive dispose, called only when `source` is "return". `visited` holds the objects, arrays,
+  // maps and sets already walked, which may be referenced more than once.
+  private disposeImpl(value: unknown, parent: object | undefined,
+                      visited: Set<object> = new Set()) {
     let kind = this.codec.typeForRpc(value);
     switch (kind) {
       case "unsupported":
@@ -999,25 +1191,56 @@ export class RpcPayload {
       case "raw-subtree":
       case "bigint":
       case "bytes":
+      case "array-buffer":
+      case "data-view":
+      case "regexp":
+      case "boxed":
       case "date":
       case "error":
       case "error-raw":
       case "undefined":
+      case "custom":
+      case "instance":
         return;
 
       case "array": {
         let array = <Array<unknown>>value;
+        if (visited.has(array)) return;
+        visited.add(array);
         let len = array.length;
         for (let i = 0; i < len; i++) {
-          this.disposeImpl(array[i], array);
+          this.disposeImpl(array[i], array, visited);
         }
         return;
       }
 
       case "object": {
         let object = <Record<string, unknown>>value;
+        if (visited.has(object)) return;
+        visited.add(object);
         for (let i in object) {
-          this.disposeImpl(object[i], object);
+          this.disposeImpl(object[i], object, visited);
+        }
+        return;
+      }
+
+      case "map": {
+        let map = <Map<unknown, unknown>>value;
+        if (visited.has(map)) return;
+        visited.add(map);
+        for (let [k, v] of map) {
+          this.disposeImpl(k, map, visited);
+          this.disposeImpl(v, map, visited);
+        }
+        return;
+      }
+
+      case "set": {
+        let set = <Set<unknown>>value;
+        if (visited.has(set)) return;
+        visited.add(set);
+        for (let e of set) {
+          this.disposeImpl(e, set, visited);
         }
         return;
       }
@@ -1058,6 +1281,13 @@ export class RpcPayload {
 
       case "native-promise":
       case "abort-signal":
+      case "readable-stream":
+      case "writable-stream":
+      case "async-iterable":
+      case "headers":
+      case "request":
+      case "response":
+      case "blob":
         return;
 
       default:
@@ -1083,7 +1313,7 @@ export class RpcPayload {
     }
   }
 
-  private ignoreUnhandledRejectionsImpl(value: unknown) {
+  private ignoreUnhandledRejectionsImpl(value: unknown, visited: Set<object> = new Set()) {
     let kind = this.codec.typeForRpc(value);
     switch (kind) {
       case "unsupported":
@@ -1092,27 +1322,58 @@ export class RpcPayload {
       case "raw-subtree":
       case "bigint":
       case "bytes":
+      case "array-buffer":
+      case "data-view":
+      case "regexp":
+      case "boxed":
       case "date":
       case "error":
       case "error-raw":
       case "undefined":
+      case "custom":
+      case "instance":
       case "function":
       case "rpc-target":
         return;
 
       case "array": {
         let array = <Array<unknown>>value;
+        if (visited.has(array)) return;
+        visited.add(array);
         let len = array.length;
         for (let i = 0; i < len; i++) {
-          this.ignoreUnhandledRejectionsImpl(array[i]);
+          this.ignoreUnhandledRejectionsImpl(array[i], visited);
         }
         return;
       }
 
       case "object": {
         let object = <Record<string, unknown>>value;
+        if (visited.has(object)) return;
+        visited.add(object);
         for (let i in object) {
-          this.ignoreUnhandledRejectionsImpl(object[i]);
+          this.ignoreUnhandledRejectionsImpl(object[i], visited);
+        }
+        return;
+      }
+
+      case "map": {
+        let map = <Map<unknown, unknown>>value;
+        if (visited.has(map)) return;
+        visited.add(map);
+        for (let [k, v] of map) {
+          this.ignoreUnhandledRejectionsImpl(k, visited);
+          this.ignoreUnhandledRejectionsImpl(v, visited);
+        }
+        return;
+      }
+
+      case "set": {
+        let set = <Set<unknown>>value;
+        if (visited.has(set)) return;
+        visited.add(set);
+        for (let e of set) {
+          this.ignoreUnhandledRejectionsImpl(e, visited);
         }
         return;
       }
@@ -1128,6 +1389,13 @@ export class RpcPayload {
 
       case "native-promise":
       case "abort-signal":
+      case "readable-stream":
+      case "writable-stream":
+      case "async-iterable":
+      case "headers":
+      case "request":
+      case "response":
+      case "blob":
         return;
 
       default:
@@ -1202,8 +1470,9 @@ function followPath(value: unknown, parent: object | undefined,
 
       case "rpc-target":
       case "rpc-thenable": {
-        // Must be prototype property, and must NOT be inherited from `Object`.
-        if (Object.hasOwn(<object>value, part)) {
+        // Must be prototype property, and must NOT be inherited from `Object`. Objects passed with
+        // `byReference()` expose their own properties as well.
+        if (Object.hasOwn(<object>value, part) && !isByReference(<object>value)) {
           // We throw an error in this case, rather than return undefined, because otherwise
           // people tend to get confused about this. If you don't want it to be possible to
           // probe the existence of your instance properties, make them properly private (prefix
@@ -1235,11 +1504,26 @@ function followPath(value: unknown, parent: object | undefined,
       case "raw-subtree":
       case "bigint":
       case "bytes":
+      case "array-buffer":
+      case "data-view":
+      case "regexp":
+      case "boxed":
       case "date":
       case "error":
       case "error-raw":
       case "native-promise":
       case "abort-signal":
+      case "readable-stream":
+      case "writable-stream":
+      case "async-iterable":
+      case "headers":
+      case "request":
+      case "response":
+      case "blob":
+      case "map":
+      case "set":
+      case "custom":
+      case "instance":
         // These have no properties that can be accessed remotely
         value = undefined;
         break;
@@ -1287,6 +1571,23 @@ function followPath(value: unknown, parent: object | undefined,
 abstract class ValueStubHook extends StubHook {
   protected abstract getValue(): {value: unknown, owner: RpcPayload | null};
 
+  whenCallsForwarded(callback: () => void): void {
+    // Calls to local functions are delivered right away, but if the value is itself a stub, calls
+    // are passed on to it. (Stubs deeper inside the value aren't tracked.)
+    let value: unknown;
+    try {
+      value = this.getValue().value;
+    } catch (err) {
+      callback();
+      return;
+    }
+    if (value instanceof RpcStub) {
+      value[RAW_STUB].hook.whenCallsForwarded(callback);
+    } else {
+      callback();
+    }
+  }
+
   call(path: PropertyPath, args: RpcPayload): StubHook {
     try {
       let {value, owner} = this.getValue();
@@ -1470,7 +1771,7 @@ type BoxedRefcount = { count: number };
 // the root of the payload happens to be an RpcTarget), but there can only be one RpcPayload
 // pointing at an RpcTarget whereas there can be several TargetStubHooks pointing at it. Also,
 // TargetStubHook cannot be pull()ed, because it always backs an RpcStub, not an RpcPromise.
-class TargetStubHook extends ValueStubHook {
+export class TargetStubHook extends ValueStubHook {
   // Constructs a TargetStubHook that is not duplicated from an existing hook.
   //
   // If `value` is a function, `parent` is bound as its "this".
@@ -1559,7 +1860,7 @@ class TargetStubHook extends ValueStubHook {
 
 // StubHook derived from a Promise for some other StubHook. Waits for the promise and then
 // forward calls, being careful to honor e-order.
-class PromiseStubHook extends StubHook {
+export class PromiseStubHook extends StubHook {
   private promise: Promise<StubHook>;
   private resolution: StubHook | undefined;
 
@@ -1652,4 +1953,10 @@ class PromiseStubHook extends StubHook {
       }, callback);
     }
   }
+
+  whenCallsForwarded(callback: () => void): void {
+    // Like call(), always go through the promise, so that the calls made before this have been
+    // passed on to the resolution by the time we ask it.
+    this.promise.then(hook => hook.whenCallsForwarded(callback), () => callback());
+  }
 }
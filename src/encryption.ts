@@ -0,0 +1,202 @@
+import { type Codec, type WireMessage, JSON_CODEC } from "./codec.js";
+import type { TypeForRpc } from "./core.js";
+
+/**
+ * Options for `RpcSessionOptions.encryption`.
+ */
+export interface EncryptionOptions {
+  // AES-GCM key shared by both peers, e.g. imported with:
+  //
+  //     crypto.subtle.importKey("raw", keyBytes, "AES-GCM", false, ["encrypt", "decrypt"])
+  //
+  // Since a session's frames can't be replayed within it, but a whole session could be replayed
+  // from the start, a fresh key should be used for each session if that matters, e.g. one derived
+  // from a key exchange.
+  key: CryptoKey;
+}
+
+// Flag byte at the start of each frame, telling what the inner codec produced.
+const BINARY = 0;
+const TEXT = 1;    // A string, encrypted as UTF-8.
+const OBJECT = 2;  // A JSON-compatible object tree (see `ObjectCodec`), encrypted as JSON.
+
+// Frame layout: flag byte, sender ID, sequence number, IV, then the ciphertext including the
+// authentication tag. Everything before the IV is authenticated as additional data.
+const SENDER_ID_SIZE = 8;
+const HEADER_SIZE = 1 + SENDER_ID_SIZE + 8;
+const IV_SIZE = 12;
+
+// A frame's flag byte and plaintext.
+type SealContent = [flag: number, plaintext: Uint8Array];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let chars: string[] = [];
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    chars.push(String.fromCharCode.apply(null, <any>bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(chars.join(""));
+}
+
+function fromBase64(text: string): Uint8Array {
+  let binary = atob(text);
+  let bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * The state of one session's encryption, shared by the `EncryptedCodec`s wrapping each of its
+ * codecs, so that sequence numbers carry on when the session switches codecs.
+ *
+ * Each side numbers the frames it sends, starting from zero, under a random sender ID. A receiver
+ * accepts only the next number from the sender ID of the first frame it received, so frames can't
+ * be replayed, reordered, dropped, or reflected back to their sender without the session failing.
+ */
+export class SessionCipher {
+  constructor(private key: CryptoKey) {
+    crypto.getRandomValues(this.senderId);
+  }
+
+  private senderId = new Uint8Array(SENDER_ID_SIZE);
+  private nextSequence = 0n;
+  private peerSenderId?: Uint8Array;
+  private expectedSequence = 0n;
+
+  // Assigns the frame its sequence number right away, so that numbers follow the order in which
+  // messages are sent, even though encryption (and possibly producing the plaintext) completes
+  // asynchronously.
+  seal(content: SealContent | Promise<SealContent>): Promise<Uint8Array> {
+    let frame = new Uint8Array(HEADER_SIZE + IV_SIZE);
+    let view = new DataView(frame.buffer);
+    frame.set(this.senderId, 1);
+    view.setBigUint64(1 + SENDER_ID_SIZE, this.nextSequence++);
+    let iv = crypto.getRandomValues(frame.subarray(HEADER_SIZE));
+
+    return (async () => {
+      let [flag, plaintext] = await content;
+      frame[0] = flag;
+      let ciphertext = await crypto.subtle.encrypt(
+          {name: "AES-GCM", iv, additionalData: frame.subarray(0, HEADER_SIZE)},
+          this.key, <BufferSource>plaintext);
+      let result = new Uint8Array(frame.length + ciphertext.byteLength);
+      result.set(frame);
+      result.set(new Uint8Array(ciphertext), frame.length);
+      return result;
+    })();
+  }
+
+  // Must be called on frames in the order they were received.
+  async open(frame: Uint8Array): Promise<{flag: number, plaintext: Uint8Array}> {
+    if (frame.length < HEADER_SIZE + IV_SIZE || frame[0] > OBJECT) {
+      throw new TypeError("encrypted frame is malformed");
+    }
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+          {
+            name: "AES-GCM",
+            iv: <BufferSource>frame.subarray(HEADER_SIZE, HEADER_SIZE + IV_SIZE),
+            additionalData: <BufferSource>frame.subarray(0, HEADER_SIZE),
+          },
+          this.key, <BufferSource>frame.subarray(HEADER_SIZE + IV_SIZE));
+    } catch (err) {
+      throw new Error("encrypted frame failed authentication");
+    }
+
+    // Only check the header once it's known to be authentic.
+    let senderId = frame.subarray(1, 1 + SENDER_ID_SIZE);
+    let sequence = new DataView(frame.buffer, frame.byteOffset).getBigUint64(1 + SENDER_ID_SIZE);
+    if (equalBytes(senderId, this.senderId)) {
+      throw new Error("encrypted frame was reflected back to its sender");
+    }
+    if (this.peerSenderId ? !equalBytes(senderId, this.peerSenderId) : sequence !== 0n) {
+      throw new Error("encrypted frame is not from this session");
+    }
+    if (sequence !== this.expectedSequence) {
+      throw new Error("encrypted frame is out of sequence (replayed or reordered)");
+    }
+    this.peerSenderId ??= senderId.slice();
+    ++this.expectedSequence;
+
+    return {flag: frame[0], plaintext: new Uint8Array(plaintext)};
+  }
+}
+
+/**
+ * Wraps a codec, sealing every message with AES-GCM. Sessions do this automatically based on
+ * `RpcSessionOptions.encryption`.
+ *
+ * Messages of codecs that produce strings or object trees are sent as base64 strings, so that
+ * they can still be carried by text-only transports; messages of binary codecs stay binary.
+ */
+export class EncryptedCodec implements Codec {
+  constructor(private inner: Codec, private cipher: SessionCipher) {
+    // Object trees are sealed as JSON, so values that a codec like postMessage's would leave to
+    // structured clone, such as dates and bigints, must be classified as for JSON instead.
+    this.classifier = inner.objectWires ? JSON_CODEC : inner;
+  }
+
+  private classifier: Codec;
+
+  get name() {
+    return this.inner.name;
+  }
+
+  // Attachments would be sent unencrypted.
+  readonly disableAttachments = true;
+
+  encode(message: any): Promise<WireMessage> {
+    // Seal before awaiting anything, so that frames are numbered in the order they're sent.
+    let wire = this.inner.encode(message);
+    let content = wire instanceof Promise ? wire.then(wire => this.plaintext(wire))
+                                          : this.plaintext(wire);
+    return this.cipher.seal(content).then(frame => frame[0] === BINARY ? frame : toBase64(frame));
+  }
+
+  private plaintext(wire: WireMessage): SealContent {
+    if (typeof wire === "string") {
+      return [TEXT, textEncoder.encode(wire)];
+    } else if (wire instanceof Uint8Array || wire instanceof ArrayBuffer) {
+      return [BINARY, new Uint8Array(wire)];
+    } else {
+      return [OBJECT, textEncoder.encode(JSON.stringify(wire))];
+    }
+  }
+
+  async decode(wire: WireMessage): Promise<any> {
+    let frame: Uint8Array;
+    if (typeof wire === "string") {
+      frame = fromBase64(wire);
+    } else if (wire instanceof Uint8Array) {
+      frame = wire;
+    } else if (wire instanceof ArrayBuffer) {
+      frame = new Uint8Array(wire);
+    } else {
+      throw new TypeError("EncryptedCodec.decode expected a string or bytes");
+    }
+
+    let {flag, plaintext} = await this.cipher.open(frame);
+    switch (flag) {
+      case TEXT:
+        return await this.inner.decode(textDecoder.decode(plaintext));
+      case OBJECT:
+        return await this.inner.decode(JSON.parse(textDecoder.decode(plaintext)));
+      default:
+        return await this.inner.decode(plaintext);
+    }
+  }
+
+  typeForRpc(value: unknown): TypeForRpc {
+    return this.classifier.typeForRpc(value);
+  }
+}
@@ -2,9 +2,11 @@
 // Licensed under the MIT license found in the LICENSE.txt file or at:
 //     https://opensource.org/license/mit
 
-import { RpcTarget as RpcTargetImpl, RpcStub as RpcStubImpl, RpcPromise as RpcPromiseImpl } from "./core.js";
-import { serialize, deserialize, raw } from "./serialize.js";
-import { RpcTransport, RpcSession as RpcSessionImpl, RpcSessionOptions } from "./rpc.js";
+import { RpcTarget as RpcTargetImpl, RpcStub as RpcStubImpl, RpcPromise as RpcPromiseImpl,
+         byReference } from "./core.js";
+import { serialize, deserialize, raw, registerErrorType, transfer } from "./serialize.js";
+import { RpcTransport, RpcSession as RpcSessionImpl, RpcSessionOptions,
+         RpcPeerInfo, HandoffOptions } from "./rpc.js";
 import { RpcTargetBranded, RpcCompatible, Stub, Stubify, __RPC_TARGET_BRAND } from "./types.js";
 import { newWebSocketRpcSession as newWebSocketRpcSessionImpl,
          newWorkersWebSocketRpcResponse } from "./websocket.js";
@@ -16,17 +18,22 @@ import { newMessagePortRpcSession as newMessagePortRpcSessionImpl,
 import { newChromeExtensionRpcSession as newChromeExtensionRpcSessionImpl,
          newChromeExtensionRpcBackgroundService as newChromeExtensionRpcBackgroundServiceImpl } from "./chrome-extension.js";
 import { forceInitMap } from "./map.js";
+import { forceInitStreams } from "./streams.js";
 
 export { JSON_CODEC, type Codec } from "./codec.js";
 export { OBJECT_CODEC } from "./object-codec.js";
 export { POSTMESSAGE_CODEC } from "./postmessage-codec.js";
+export { type EncryptionOptions } from "./encryption.js";
+export { withTypeHandlers, registerSerializableClass, type TypeHandler,
+         type SerializableClassOptions } from "./type-handler.js";
 
 forceInitMap();
+forceInitStreams();
 
 // Re-export public API types.
-export { serialize, deserialize, raw, newWorkersWebSocketRpcResponse, newHttpBatchRpcResponse,
-         nodeHttpBatchRpcResponse };
-export type { RpcTransport, RpcSessionOptions, RpcCompatible };
+export { serialize, deserialize, raw, registerErrorType, transfer, byReference,
+         newWorkersWebSocketRpcResponse, newHttpBatchRpcResponse, nodeHttpBatchRpcResponse };
+export type { RpcTransport, RpcSessionOptions, RpcPeerInfo, HandoffOptions, RpcCompatible };
 
 // Hack the type system to make RpcStub's types work nicely!
 /**
@@ -73,12 +80,22 @@ export const RpcPromise: {
  * Most people won't use this. You only need it if you've implemented your own `RpcTransport`.
  */
 export interface RpcSession<T extends RpcCompatible<T> = undefined> {
-  getRemoteMain(): RpcStub<T>;
+  getRemoteMain(): RpcStub<T> & AsyncDisposable;
   getStats(): {imports: number, exports: number};
 
   // Waits until the peer is not waiting on any more promise resolutions from us. This is useful
   // in particular to decide when a batch is complete.
   drain(): Promise<void>;
+
+  // Returns what the peer advertised in its hello message, or undefined if it hasn't sent one
+  // (yet). See `RpcSessionOptions.codecs`.
+  getPeerInfo(): RpcPeerInfo | undefined;
+
+  // Closes the session cleanly: stops accepting new calls from the peer, waits for calls in
+  // flight in either direction to complete, tells the peer, and closes the transport normally.
+  // Stubs obtained from the session are broken afterwards. Disposing the main stub with
+  // `await using` does the same.
+  close(): Promise<void>;
 }
 export const RpcSession: {
   new <T extends RpcCompatible<T> = undefined>(
@@ -115,7 +132,8 @@ export interface Empty {}
  * interface exposed from the peer.
  */
 export let newWebSocketRpcSession:<T extends RpcCompatible<T> = Empty>
-    (webSocket: WebSocket | string, localMain?: any, options?: RpcSessionOptions) => RpcStub<T> =
+    (webSocket: WebSocket | string, localMain?: any, options?: RpcSessionOptions)
+        => RpcStub<T> & AsyncDisposable =
     <any>newWebSocketRpcSessionImpl;
 
 /**
@@ -124,6 +142,10 @@ export let newWebSocketRpcSession:<T extends RpcCompatible<T> = Empty>
  * The parameters to this method have exactly the same signature as `fetch()`, but the return
  * value is an RpcStub. You can customize anything about the request except for the method
  * (it will always be set to POST) and the body (which the RPC system will fill in).
+ *
+ * With the JSON codec, byte arrays are sent inline as base64 unless `options.sendAttachments` is
+ * set, in which case batches containing them are sent as multipart bodies. Only set it if the
+ * server is known to understand those.
  */
 export let newHttpBatchRpcSession:<T extends RpcCompatible<T>>
     (urlOrRequest: string | Request, init?: RequestInit, options?: RpcSessionOptions) => RpcStub<T> =
@@ -135,11 +157,13 @@ export let newHttpBatchRpcSession:<T extends RpcCompatible<T>>
  * on its own end of the MessageChannel.
  */
 export let newMessagePortRpcSession:<T extends RpcCompatible<T> = Empty>
-    (port: MessagePort, localMain?: any, options?: RpcSessionOptions) => RpcStub<T> =
+    (port: MessagePort, localMain?: any, options?: RpcSessionOptions)
+        => RpcStub<T> & AsyncDisposable =
     <any>newMessagePortRpcSessionImpl;
 
 export let newEndpointRpcSession:<T extends RpcCompatible<T> = Empty>
-    (endpoint: Endpoint, localMain?: any, options?: RpcSessionOptions) => RpcStub<T> =
+    (endpoint: Endpoint, localMain?: any, options?: RpcSessionOptions)
+        => RpcStub<T> & AsyncDisposable =
     <any>newEndpointRpcSessionImpl;
   
 export type { Endpoint };
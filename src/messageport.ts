@@ -80,11 +80,11 @@ class MessagePortTransport implements RpcTransport {
   #receiveQueue: WireMessage[] = [];
   #error?: any;
 
-  async send(message: WireMessage): Promise<void> {
+  async send(message: WireMessage, transfer?: Transferable[]): Promise<void> {
     if (this.#error) {
       throw this.#error;
     }
-    this.#port.postMessage({ type: MESSAGE, value: message });
+    this.#port.postMessage({ type: MESSAGE, value: message }, transfer ?? []);
   }
 
   async receive(): Promise<WireMessage> {
@@ -7,6 +7,7 @@ import { TypeForRpc } from "./core.js";
  */
 export class ObjectCodec implements Codec {
   readonly name = "object";
+  readonly objectWires = true;
 
   encode(message: any): WireMessage {
     return message;
@@ -5,6 +5,7 @@ import { RAW_SUBTREE_BRAND } from "./symbols.js";
 
 export class PostMessageCodec implements Codec {
   readonly name = "postmessage";
+  readonly objectWires = true;
 
   encode(message: any): WireMessage {
     return message;
@@ -25,6 +26,11 @@ export class PostMessageCodec implements Codec {
         case "date":
         case "bytes":
         case "undefined":
+        case "blob":
+        case "regexp":
+        case "array-buffer":
+        case "data-view":
+        case "boxed":
           return "raw";
         case "error":
           return "error-raw";
@@ -49,10 +55,6 @@ export class PostMessageCodec implements Codec {
           return "raw";
         }
 
-        if (value instanceof Map || value instanceof Set) {
-        return "raw";
-      }
-
         if (value instanceof RegExp) {
           return "raw";
         }
@@ -2,9 +2,11 @@
 // Licensed under the MIT license found in the LICENSE.txt file or at:
 //     https://opensource.org/license/mit
 
-import { StubHook, RpcPayload, RpcStub, PropertyPath, PayloadStubHook, ErrorStubHook, RpcTarget, unwrapStubAndPath } from "./core.js";
+import { StubHook, RpcPayload, RpcStub, PropertyPath, PayloadStubHook, ErrorStubHook, PromiseStubHook, RpcPromise, RpcTarget, unwrapStubAndPath } from "./core.js";
 import { Devaluator, Evaluator, ExportId, ImportId, Exporter, Importer } from "./serialize.js";
 import { Codec, JSON_CODEC, WireMessage } from "./codec.js";
+import { EncryptedCodec, EncryptionOptions, SessionCipher } from "./encryption.js";
+import { TypeHandler, withTypeHandlers } from "./type-handler.js";
 
 /**
  * Interface for an RPC transport, which is a simple bidirectional message stream. Implement this
@@ -13,8 +15,12 @@ import { Codec, JSON_CODEC, WireMessage } from "./codec.js";
 export interface RpcTransport {
   /**
    * Sends a message to the other end.
+   *
+   * `transfer`, if given, lists objects found in the message that the app asked to transfer
+   * rather than copy (see `transfer()`). Transports based on `postMessage()` should pass it along;
+   * others can ignore it.
    */
-  send(message: WireMessage): Promise<void>;
+  send(message: WireMessage, transfer?: Transferable[]): Promise<void>;
 
   /**
    * Receives a message sent by the other end.
@@ -34,13 +40,29 @@ export interface RpcTransport {
    * peer, so if that is dropped, the peer may have less information about what happened.)
    */
   abort?(reason: any): void;
+
+  /**
+   * Called when the session is closed cleanly (see `RpcSession.close()`), after the last message
+   * has been sent. The transport should deliver any queued messages and then close the connection
+   * normally, e.g. with WebSocket close code 1000. If not implemented, `abort()` is called instead.
+   */
+  close?(): void;
+
+  /**
+   * Set to true if the transport can carry binary messages as well as strings, in order. Sessions
+   * whose codec would have to encode byte arrays as text (like the JSON codec's base64) then send
+   * them as separate binary messages instead, each preceding the message that refers to it. So,
+   * `receive()` must deliver binary messages as `Uint8Array` or `ArrayBuffer`.
+   */
+  readonly supportsAttachments?: boolean;
 }
 
 // Entry on the exports table.
 type ExportTableEntry = {
   hook: StubHook,
   refcount: number,
-  pull?: Promise<void>
+  pull?: Promise<void>,
+  isCall?: boolean  // created by a "push" message
 };
 
 // Entry on the imports table.
@@ -49,7 +71,8 @@ class ImportTableEntry {
     public session: RpcSessionImpl,
     public importId: number,
     pulling: boolean,
-    private suppressDisposalRejection?: boolean
+    private suppressDisposalRejection?: boolean,
+    private isCall?: boolean
   ) {
     if (pulling) {
       this.activePull = Promise.withResolvers<void>();
@@ -59,6 +82,9 @@ class ImportTableEntry {
   public localRefcount: number = 0;
   public remoteRefcount: number = 1;
 
+  // Set once a call has been sent to the peer on this import, i.e. pipelined on the promise.
+  public pipelined = false;
+
   private activePull?: PromiseWithResolvers<void>;
   public resolution?: StubHook;
 
@@ -66,21 +92,21 @@ class ImportTableEntry {
   // this import. Initialized on first use (so `undefined` is the same as an empty list).
   private onBrokenRegistrations?: number[];
 
-  resolve(resolution: StubHook) {
-    // TODO: Need embargo handling here? PayloadStubHook needs to be wrapped in a
-    // PromiseStubHook awaiting the embargo I suppose. Previous notes on embargoes:
-    // - Resolve message specifies last call that was received before the resolve. The introducer is
-    //   responsible for any embargoes up to that point.
-    // - Any further calls forwarded by the introducer after that point MUST immediately resolve to
-    //   a forwarded call. The caller is responsible for ensuring the last of these is handed off
-    //   before direct calls can be delivered.
-
+  // `pointsBack` is true if the resolution refers to objects of ours, i.e. calls on it would come
+  // straight back through this connection rather than to the peer.
+  resolve(resolution: StubHook, pointsBack = false) {
     if (this.localRefcount == 0) {
       // Already disposed (canceled), so ignore the resolution and don't send a redundant release.
       resolution.dispose();
       return;
     }
 
+    if (this.pipelined && pointsBack) {
+      // Calls pipelined on the promise are still on their way back to us through the peer. Hold
+      // back new ones until those have arrived. (This must be sent before the release.)
+      resolution = this.session.embargo(this.importId, resolution);
+    }
+
     this.resolution = resolution;
     this.sendRelease();
 
@@ -116,6 +142,9 @@ class ImportTableEntry {
     if (!this.activePull) {
       this.session.sendPull(this.importId);
       this.activePull = Promise.withResolvers<void>();
+      if (this.isCall) {
+        this.session.trackCall(this.activePull.promise);
+      }
     }
     await this.activePull.promise;
     return this.resolution!.pull();
@@ -289,6 +318,14 @@ class RpcMainHook extends RpcImportHook {
       session.shutdown();
     }
   }
+
+  async asyncDispose(): Promise<void> {
+    if (this.session) {
+      let session = this.session;
+      this.session = undefined;
+      await session.close();
+    }
+  }
 }
 
 /**
@@ -314,13 +351,173 @@ export type RpcSessionOptions = {
    * Provide a `Codec` instance (e.g. new V8Codec()) or omit for JSON.
    */
   codec?: Codec;
+
+  /**
+   * Application-defined types to support in addition to those supported by the codec. Both
+   * peers must configure handlers with the same names. See `TypeHandler`.
+   */
+  typeHandlers?: TypeHandler[];
+
+  /**
+   * Codecs this side supports, most preferred first, for negotiation with the peer. Sessions
+   * always start out using `codec` (JSON by default), which both peers must agree on. Once the
+   * peers have exchanged hello messages, each side switches to sending in the first codec in the
+   * peer's list that it also supports. Peers that don't send a hello keep using `codec`.
+   */
+  codecs?: Codec[];
+
+  /**
+   * Whether to send a hello at the start of the session, rather than only in reply to the peer's.
+   * Only enable this if the peer is known to understand hello messages, as older versions reject
+   * them: typically the client sends the hello, so that servers can be upgraded first.
+   */
+  sendHello?: boolean;
+
+  /**
+   * Whether to send byte arrays as binary attachments (see `RpcTransport.supportsAttachments`)
+   * right away, rather than only once the peer's hello says it understands them. Only enable this
+   * if the peer is known to support attachments, as older versions can't decode them. Set to
+   * `false` to never send attachments, even to peers that support them.
+   */
+  sendAttachments?: boolean;
+
+  /**
+   * Restricts outgoing messages to what upstream Cap'n Web peers understand, for talking to peers
+   * not based on this library. Values that have no upstream encoding but can reasonably be
+   * degraded are sent the way upstream would send them; for example, errors lose their extra
+   * properties and native promises arrive as `RpcPromise`s. Values that can't, such as `Map`s or
+   * streams, fail to serialize with an error instead. Requires the JSON codec.
+   */
+  upstreamCompatible?: boolean;
+
+  /**
+   * Encrypts and authenticates every message with AES-GCM, using a key shared by both peers, for
+   * sessions whose transport can be observed or tampered with, e.g. through a relay. Messages
+   * are numbered, and the session aborts if any is forged, replayed, reordered or dropped. Binary
+   * attachments aren't used, as they'd bypass encryption. See `EncryptionOptions`.
+   */
+  encryption?: EncryptionOptions;
+
+  /**
+   * Enables three-party handoff: when a stub imported from another session is passed into this
+   * one, the peer is told how to reach the stub's origin directly, so that its calls don't have to
+   * be proxied through this side. The peer falls back to the proxy if it can't connect. Sessions
+   * that can be reached directly, or that can connect to others, configure this too. See
+   * `HandoffOptions`.
+   */
+  handoff?: HandoffOptions;
+
+  /**
+   * How long `close()` waits for calls in flight to complete, in milliseconds, before giving up
+   * and aborting the session, which fails the calls still in flight. Defaults to 30 seconds. Pass
+   * `Infinity` to wait as long as it takes.
+   */
+  closeTimeout?: number;
+
+  /**
+   * How many `next()` calls async iterators received from the peer make ahead of their consumer,
+   * so that values don't each take a round trip. Defaults to 3. This runs the remote iterator,
+   * including any side effects of a generator, ahead of the consumer, and an argument passed to
+   * `next()` only reaches the remote iterator if no call made ahead is pending. Set to 0 to make
+   * one call per `next()`, passing its argument along.
+   */
+  asyncIteratorPrefetch?: number;
+
+  /**
+   * How many `read()` calls ReadableStreams received from the peer make ahead of their consumer,
+   * so that chunks don't each take a round trip. Defaults to 15. Until the reads complete, it
+   * isn't known whether the stream has ended, so up to this many extra calls are made after its
+   * end. Set to 0 to make one call per read.
+   */
+  streamReadAhead?: number;
 };
 
+/**
+ * Options for `RpcSessionOptions.handoff`. An empty object enables handing off stubs to the peer,
+ * as long as the stubs' origins advertised an address and the peer supports handoff.
+ *
+ * Pass the same object to all sessions of one endpoint: a stub handed off through one of its
+ * sessions is claimed through another, and a stub handed back to the endpoint it came from is
+ * recognized as its own, cutting out the proxies entirely.
+ */
+export interface HandoffOptions {
+  // Address at which third parties can reach this side, e.g. a WebSocket URL. Advertised to peers
+  // in hello messages, so that they can hand off stubs pointing here.
+  address?: string;
+
+  // Returns the main stub of a session to the given address, e.g. using
+  // `newWebSocketRpcSession()`. Called for every stub handed off to this side, so connections
+  // should be reused by address. The stub isn't disposed after use. If this is missing, throws, or
+  // the handoff fails, calls are proxied as usual.
+  //
+  // The address comes from the peer, which may be untrusted: `introducer` is the session through
+  // which it arrived. Only connect to addresses you expect, e.g. from an allow-list, and throw
+  // otherwise. Connecting to any address would let peers make this side open connections on their
+  // behalf, e.g. to internal services (server-side request forgery).
+  connect?(address: string, introducer: RpcSession): RpcStub | Promise<RpcStub>;
+}
+
+/**
+ * What a peer advertised in its hello message. See `RpcSessionOptions.codecs`.
+ */
+export type RpcPeerInfo = {
+  // The peer's protocol version.
+  version: number;
+
+  // Names of the codecs the peer supports, most preferred first.
+  codecs: string[];
+
+  // Optional protocol features the peer supports, e.g. "abort-signal" or "raw-subtree".
+  features: string[];
+
+  // The address at which the peer can be reached directly, see `HandoffOptions.address`.
+  address?: string;
+};
+
+// Version of the protocol sent in hello messages. To be incremented on incompatible changes, so
+// sessions abort if the peer's version differs.
+const PROTOCOL_VERSION = 1;
+
+// Optional protocol features sent in hello messages, i.e. expressions and messages that peers
+// based on upstream Cap'n Web may not understand. Once the peer's hello has arrived, only those
+// it lists are used (see `Exporter.peerFeatures`).
+const FEATURES = [
+  "raw-subtree", "abort-signal", "native-promise", "typed-arrays", "structured-clone", "streams",
+  "fetch", "blob", "map-set", "refs", "custom-types", "attachments", "embargo", "close",
+];
+
+// Default for `RpcSessionOptions.closeTimeout`.
+const DEFAULT_CLOSE_TIMEOUT = 30_000;
+
+// Stubs provided for handoff but not yet claimed, by token, for each `HandoffOptions` object (i.e.
+// endpoint).
+const PROVISIONS = new WeakMap<HandoffOptions, Map<string, StubHook>>();
+
+function provisionsFor(options: HandoffOptions): Map<string, StubHook> {
+  let provisions = PROVISIONS.get(options);
+  if (!provisions) {
+    provisions = new Map();
+    PROVISIONS.set(options, provisions);
+  }
+  return provisions;
+}
+
+// Returns a random token that is infeasible to guess, since it grants access to a stub.
+function newHandoffToken(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)),
+                    byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return value instanceof Array && value.every(item => typeof item === "string");
+}
+
 class RpcSessionImpl implements Importer, Exporter {
   private exports: Array<ExportTableEntry> = [];
   private reverseExports: Map<StubHook, ExportId> = new Map();
   private imports: Array<ImportTableEntry> = [];
   private abortReason?: any;
+  private abortPromise: Promise<never>;
   private cancelReadLoop: (error: any) => void;
 
   // We assign positive numbers to imports we initiate, and negative numbers to exports we
@@ -356,8 +553,75 @@ class RpcSessionImpl implements Importer, Exporter {
     }
   });
 
+  // The codecs used to encode outgoing and decode incoming messages. Both start out as the codec
+  // from the options, extended with the options' type handlers, if any, and may each be switched
+  // to another of `codecs` by the hello exchange.
+  sendCodec: Codec;
+  private receiveCodec: Codec;
+
+  // All codecs this side supports, most preferred first, with type handlers applied.
+  private codecs: Codec[];
+
+  // Whether byte arrays are sent as (or received with) binary attachments, see
+  // `RpcTransport.supportsAttachments`. Depends on the codec in each direction, and for sending,
+  // also on whether the peer supports them.
+  private sendAttachments: boolean;
+  private receiveAttachments: boolean;
+
+  // Set while messages are being encoded by an asynchronous codec, resolving once the last of
+  // them has been handed to the transport.
+  private pendingSends?: Promise<void>;
+
+  private sentHello = false;
+  private peerInfo?: RpcPeerInfo;
+
+  // Calls in either direction whose results have been pulled but not yet delivered. A clean close
+  // waits for these.
+  private callsInFlight = new Set<Promise<unknown>>();
+
+  // Set once `close()` is called.
+  private closing?: Promise<void>;
+
+  // Set if the session ended by a clean close, from either side.
+  private closedCleanly = false;
+
+  // Embargoes waiting for the peer to reflect their "disembargo" message, by ID.
+  private embargoes = new Map<number, () => void>();
+  private nextEmbargoId = 0;
+
+  // Tokens under which the peer provided our exports for handoff, by export ID. Unclaimed ones are
+  // withdrawn when the export is released.
+  private provided = new Map<ExportId, string[]>();
+
   constructor(private transport: RpcTransport, mainHook: StubHook,
-      private options: RpcSessionOptions) {
+      private options: RpcSessionOptions, private owner: RpcSession) {
+    if (options.upstreamCompatible) {
+      if (options.codec && options.codec.name !== "json") {
+        throw new TypeError("upstreamCompatible requires the JSON codec.");
+      }
+      if (options.codecs || options.sendHello || options.sendAttachments || options.encryption) {
+        throw new TypeError(
+            "upstreamCompatible can't be combined with codec negotiation, attachments or " +
+            "encryption.");
+      }
+    }
+
+    let cipher = options.encryption && new SessionCipher(options.encryption.key);
+    let wrap = (c: Codec) =>
+        withTypeHandlers(cipher ? new EncryptedCodec(c, cipher) : c, options.typeHandlers);
+
+    let codec = wrap(options.codec || JSON_CODEC);
+    this.codecs = (options.codecs ?? []).map(c => c.name === codec.name ? codec : wrap(c));
+    if (!this.codecs.some(c => c.name === codec.name)) {
+      this.codecs.push(codec);
+    }
+
+    this.sendCodec = codec;
+    this.receiveCodec = codec;
+    this.receiveAttachments = this.canUseAttachments(codec);
+    // Until the peer's hello says otherwise, only send attachments if told it's safe to.
+    this.sendAttachments = this.receiveAttachments && !!options.sendAttachments;
+
     // Export zero is automatically the bootstrap object.
     this.exports.push({hook: mainHook, refcount: 1});
 
@@ -365,10 +629,79 @@ class RpcSessionImpl implements Importer, Exporter {
     this.imports.push(new ImportTableEntry(this, 0, false));
 
     let rejectFunc: (error: any) => void;;
-    let abortPromise = new Promise<never>((resolve, reject) => { rejectFunc = reject; });
+    this.abortPromise = new Promise<never>((resolve, reject) => { rejectFunc = reject; });
     this.cancelReadLoop = rejectFunc!;
 
-    this.readLoop(abortPromise).catch(err => this.abort(err));
+    if (options.sendHello) {
+      this.sendHello();
+    }
+
+    this.readLoop(this.abortPromise).catch(err => this.abort(err));
+  }
+
+  get upstreamCompatible(): boolean {
+    return !!this.options.upstreamCompatible;
+  }
+
+  get peerFeatures(): readonly string[] | undefined {
+    return this.peerInfo?.features;
+  }
+
+  get asyncIteratorPrefetch(): number | undefined {
+    return this.options.asyncIteratorPrefetch;
+  }
+
+  get streamReadAhead(): number | undefined {
+    return this.options.streamReadAhead;
+  }
+
+  private canUseAttachments(codec: Codec): boolean {
+    return !!this.transport.supportsAttachments && !codec.disableAttachments &&
+        codec.typeForRpc(new Uint8Array(0)) === "bytes";
+  }
+
+  private sendHello() {
+    this.sentHello = true;
+    let handoff = this.options.handoff;
+    let hello = ["hello", PROTOCOL_VERSION, this.codecs.map(c => c.name),
+                 handoff ? [...FEATURES, "handoff"] : FEATURES];
+    if (handoff?.address !== undefined) {
+      hello.push(handoff.address);
+    }
+    this.send(hello);
+  }
+
+  // Handles the peer's hello: replies with our own, if we haven't sent one yet, and switches
+  // outgoing messages to the peer's favorite among the codecs we both support.
+  private receiveHello(info: RpcPeerInfo) {
+    if (info.version !== PROTOCOL_VERSION) {
+      throw new Error(`Peer uses RPC protocol version ${info.version}, but only version ` +
+                      `${PROTOCOL_VERSION} is supported.`);
+    }
+
+    this.peerInfo = info;
+    if (!this.sentHello) {
+      this.sendHello();
+    }
+
+    for (let name of info.codecs) {
+      let codec = this.codecs.find(c => c.name === name);
+      if (codec) {
+        if (codec !== this.sendCodec) {
+          // The "codec" message itself is still encoded with the old codec.
+          this.send(["codec", name]);
+          this.sendCodec = codec;
+        }
+        break;
+      }
+    }
+
+    this.sendAttachments = this.canUseAttachments(this.sendCodec) &&
+        (this.options.sendAttachments ?? info.features.includes("attachments"));
+  }
+
+  getPeerInfo(): RpcPeerInfo | undefined {
+    return this.peerInfo;
   }
 
   // Should only be called once immediately after construction.
@@ -377,11 +710,94 @@ class RpcSessionImpl implements Importer, Exporter {
   }
 
   shutdown(): void {
-    // TODO(someday): Should we add some sort of "clean shutdown" mechanism? This gets the job
-    //   done just fine for the moment.
+    // Disposing the main stub can't wait for anything, so this just aborts. See `close()` for a
+    // clean shutdown.
     this.abort(new Error("RPC session was shut down by disposing the main stub"), false);
   }
 
+  close(): Promise<void> {
+    if (!this.closing) {
+      this.closing = this.closeCleanly();
+    }
+    return this.closing;
+  }
+
+  private async closeCleanly(): Promise<void> {
+    if (this.abortReason !== undefined) {
+      // Already closed or broken, nothing to do.
+      return;
+    }
+
+    let timeout = this.options.closeTimeout ?? DEFAULT_CLOSE_TIMEOUT;
+    let timer = timeout === Infinity ? undefined : setTimeout(() => {
+      this.abort(new Error(
+          `RPC session close timed out after ${timeout} ms with calls still in flight.`));
+    }, timeout);
+
+    try {
+      // Wait for calls in flight to complete, and for the releases of their results, as well as
+      // any other messages already sent, to be handed to the transport.
+      while (this.callsInFlight.size > 0 || this.pendingSends) {
+        await Promise.race([
+          Promise.allSettled([...this.callsInFlight, this.pendingSends]),
+          this.abortPromise,
+        ]);
+      }
+
+      if (this.peerInfo?.features.includes("close")) {
+        // Other peers, e.g. upstream ones, don't know this message; they'll just see the transport
+        // close.
+        this.send(["close"]);
+      }
+      while (this.pendingSends) {
+        await Promise.race([this.pendingSends, this.abortPromise]);
+      }
+    } catch (err) {
+      if (this.closedCleanly) {
+        // The peer closed the session at the same time.
+        return;
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    this.closeWith(new Error("RPC session was closed."));
+  }
+
+  // Ends the session after a clean close by either side.
+  private closeWith(error: Error) {
+    if (this.abortReason !== undefined) return;
+    this.closedCleanly = true;
+    this.cancelReadLoop(error);
+    this.tearDown(error, true);
+  }
+
+  // Called when an import on which calls were pipelined resolves to `hook`, which points back to
+  // an object of ours. Calls on the promise made from now on would go straight to `hook` without
+  // even leaving this side, and could overtake the pipelined calls, which the peer is forwarding
+  // back to us. So, like Cap'n Proto, we send a "disembargo" message through the import, which the
+  // peer reflects back once it has passed on all calls it received on it before. Until then, calls
+  // on (and pulls of) the returned hook are held back.
+  embargo(importId: ImportId, hook: StubHook): StubHook {
+    if (this.upstreamCompatible || !this.peerInfo?.features.includes("embargo")) {
+      // The peer doesn't understand disembargo messages, or hasn't told us that it does.
+      return hook;
+    }
+
+    let embargoId = this.nextEmbargoId++;
+    let {promise, resolve} = Promise.withResolvers<void>();
+    this.embargoes.set(embargoId, resolve);
+    this.send(["disembargo", importId, embargoId]);
+    return new PromiseStubHook(promise.then(() => hook));
+  }
+
+  trackCall(promise: Promise<unknown>) {
+    this.callsInFlight.add(promise);
+    let done = () => { this.callsInFlight.delete(promise); };
+    promise.then(done, done);
+  }
+
   exportStub(hook: StubHook): ExportId {
     if (this.abortReason) throw this.abortReason;
 
@@ -430,6 +846,21 @@ class RpcSessionImpl implements Importer, Exporter {
       delete this.exports[exportId];
       this.reverseExports.delete(entry.hook);
       entry.hook.dispose();
+      this.withdraw(exportId);
+    }
+  }
+
+  // Disposes provisions of the export that weren't claimed. The peer no longer holds a proxy for
+  // it, so nobody will claim them anymore.
+  private withdraw(exportId: ExportId) {
+    let tokens = this.provided.get(exportId);
+    if (tokens) {
+      this.provided.delete(exportId);
+      let provisions = provisionsFor(this.options.handoff!);
+      for (let token of tokens) {
+        provisions.get(token)?.dispose();
+        provisions.delete(token);
+      }
     }
   }
 
@@ -474,13 +905,15 @@ class RpcSessionImpl implements Importer, Exporter {
         payload => {
           // We don't transfer ownership of stubs in the payload since the payload
           // belongs to the hook which sticks around to handle pipelined requests.
+          let transfer: Transferable[] = [];
+          let attachments = this.sendAttachments ? [] : undefined;
           let value = Devaluator.devaluate(
-              payload.value, undefined, this, payload, this.codec);
-          this.send(["resolve", exportId, value]);
+              payload.value, undefined, this, payload, this.sendCodec, transfer, attachments);
+          this.send(["resolve", exportId, value], transfer, attachments);
         },
         error => {
           this.send(["reject", exportId, Devaluator
-              .devaluate(error, undefined, this, undefined, this.codec)]);
+              .devaluate(error, undefined, this, undefined, this.sendCodec)]);
         }
       ).catch(
         error => {
@@ -488,7 +921,7 @@ class RpcSessionImpl implements Importer, Exporter {
           // itself always be serializable.
           try {
             this.send(["reject", exportId, Devaluator
-                .devaluate(error, undefined, this, undefined, this.codec)]);
+                .devaluate(error, undefined, this, undefined, this.sendCodec)]);
           } catch (error2) {
             // TODO: Shouldn't happen, now what?
             this.abort(error2);
@@ -501,6 +934,9 @@ class RpcSessionImpl implements Importer, Exporter {
           }
         }
       });
+      if (exp.isCall) {
+        this.trackCall(exp.pull);
+      }
     }
   }
 
@@ -542,21 +978,15 @@ class RpcSessionImpl implements Importer, Exporter {
     return this.exports[idx]?.hook;
   }
 
-  get codec(): Codec {
-    const c = this.options.codec;
-    if (c) return c;
-    return JSON_CODEC;
-  }
-
-  private send(msg: any) {
+  private send(msg: any, transfer?: Transferable[], attachments?: Uint8Array[]) {
     if (this.abortReason !== undefined) {
       // Ignore sends after we've aborted.
       return;
     }
 
-    let msgText: WireMessage;
+    let msgText: WireMessage | Promise<WireMessage>;
     try {
-      msgText = this.codec.encode(msg);
+      msgText = this.sendCodec.encode(msg);
     } catch (err) {
       // If JSON stringification failed, there's something wrong with the devaluator, as it should
       // not allow non-JSONable values to be injected in the first place.
@@ -564,18 +994,44 @@ class RpcSessionImpl implements Importer, Exporter {
       throw err;
     }
 
-    this.transport.send(msgText)
-        // If send fails, abort the connection, but don't try to send an abort message since
-        // that'll probably also fail.
+    if (msgText instanceof Promise || this.pendingSends) {
+      // The codec is asynchronous. Transmit the message once it's encoded, but not before the
+      // messages sent before it.
+      let pending: Promise<void> = Promise.all([msgText, this.pendingSends]).then(([wire]) => {
+        if (this.abortReason === undefined) {
+          this.transmit(wire, transfer, attachments);
+        }
+      }, err => this.abort(err)).finally(() => {
+        if (this.pendingSends === pending) {
+          this.pendingSends = undefined;
+        }
+      });
+      this.pendingSends = pending;
+    } else {
+      this.transmit(msgText, transfer, attachments);
+    }
+  }
+
+  private transmit(msgText: WireMessage, transfer?: Transferable[], attachments?: Uint8Array[]) {
+    // If send fails, abort the connection, but don't try to send an abort message since that'll
+    // probably also fail.
+    for (let attachment of attachments ?? []) {
+      this.transport.send(attachment).catch(err => this.abort(err, false));
+    }
+    this.transport.send(msgText, transfer?.length ? transfer : undefined)
         .catch(err => this.abort(err, false));
   }
 
   sendCall(id: ImportId, path: PropertyPath, args?: RpcPayload): RpcImportHook {
     if (this.abortReason) throw this.abortReason;
 
+    this.markPipelined(id);
     let value: Array<any> = ["pipeline", id, path];
+    let transfer: Transferable[] = [];
+    let attachments = this.sendAttachments ? [] : undefined;
     if (args) {
-      let devalue = Devaluator.devaluate(args.value, undefined, this, args);
+      let devalue = Devaluator.devaluate(
+          args.value, undefined, this, args, this.sendCodec, transfer, attachments);
 
       // HACK: Since the args is an array, devaluator will wrap in a second array. Need to unwrap.
       // TODO: Clean this up somehow.
@@ -584,9 +1040,9 @@ class RpcSessionImpl implements Importer, Exporter {
       // Serializing the payload takes ownership of all stubs within, so the payload itself does
       // not need to be disposed.
     }
-    this.send(["push", value]);
+    this.send(["push", value], transfer, attachments);
 
-    let entry = new ImportTableEntry(this, this.imports.length, false);
+    let entry = new ImportTableEntry(this, this.imports.length, false, false, true);
     this.imports.push(entry);
     return new RpcImportHook(/*isPromise=*/true, entry);
   }
@@ -609,10 +1065,109 @@ class RpcSessionImpl implements Importer, Exporter {
       }
     });
 
+    this.markPipelined(id);
     let value = ["remap", id, path, devaluedCaptures, instructions];
 
     this.send(["push", value]);
 
+    let entry = new ImportTableEntry(this, this.imports.length, false, false, true);
+    this.imports.push(entry);
+    return new RpcImportHook(/*isPromise=*/true, entry);
+  }
+
+  private markPipelined(id: ImportId) {
+    let entry = this.imports[id];
+    if (entry) {
+      entry.pipelined = true;
+    }
+  }
+
+  // Called when a stub is about to be sent to the peer, to see if it can be handed off. If so,
+  // returns the address and token to send along with the usual export, which serves as the
+  // fallback.
+  handOff(hook: StubHook): [address: string, token: string] | undefined {
+    if (!this.options.handoff || !this.peerInfo?.features.includes("handoff")) {
+      return undefined;
+    }
+
+    // Only stubs imported from a session other than this one (whose own imports are sent back
+    // as such) and not yet resolved to something else.
+    if (hook instanceof RpcImportHook && hook.entry && hook.entry.session !== this &&
+        !hook.entry.resolution) {
+      return hook.entry.session.provide(hook.entry.importId);
+    }
+    return undefined;
+  }
+
+  // Asks the peer to provide the import for a handoff to a third party, if the peer can be
+  // reached directly.
+  private provide(importId: ImportId): [address: string, token: string] | undefined {
+    let address = this.peerInfo?.address;
+    if (this.abortReason || address === undefined || !this.peerInfo!.features.includes("handoff")) {
+      return undefined;
+    }
+
+    let token = newHandoffToken();
+    this.send(["provide", importId, token]);
+    return [address, token];
+  }
+
+  // Claims a stub provided to this endpoint, for a third party that connected to us.
+  acceptHandoff(token: string): StubHook | undefined {
+    if (!this.options.handoff) {
+      return undefined;
+    }
+
+    let provisions = provisionsFor(this.options.handoff);
+    let hook = provisions.get(token);
+    provisions.delete(token);
+    return hook;
+  }
+
+  // Called when the peer hands off a stub to us. Returns a hook that connects to the stub's origin
+  // and claims it there, or `fallback`, the peer's proxy, if that fails.
+  receiveHandoff(fallback: StubHook, address: string, token: string): StubHook {
+    let handoff = this.options.handoff;
+    if (!handoff) {
+      return fallback;
+    }
+
+    // The stub came from this very endpoint, so there's no need to go anywhere.
+    let provided = this.acceptHandoff(token);
+    if (provided) {
+      fallback.dispose();
+      return provided;
+    }
+
+    let connect = handoff.connect;
+    if (!connect) {
+      return fallback;
+    }
+
+    // Calls wait for the outcome, rather than being sent through either path meanwhile, so that
+    // they're delivered in order.
+    return new PromiseStubHook((async () => {
+      try {
+        let main = unwrapStubAndPath(await connect(address, this.owner)).hook;
+        if (!(main instanceof RpcImportHook) || !main.entry) {
+          throw new TypeError("HandoffOptions.connect() must return the main stub of a session.");
+        }
+        let accepted = await new RpcPromise(main.entry.session.sendAccept(token), []);
+        if (!(accepted instanceof RpcStub)) {
+          throw new TypeError("handoff was accepted with something other than a stub");
+        }
+        fallback.dispose();
+        return unwrapStubAndPath(accepted).hook;
+      } catch (err) {
+        return fallback;
+      }
+    })());
+  }
+
+  private sendAccept(token: string): RpcImportHook {
+    if (this.abortReason) throw this.abortReason;
+
+    this.send(["push", ["accept", token]]);
     let entry = new ImportTableEntry(this, this.imports.length, false);
     this.imports.push(entry);
     return new RpcImportHook(/*isPromise=*/true, entry);
@@ -647,15 +1202,23 @@ class RpcSessionImpl implements Importer, Exporter {
 
     if (trySendAbortMessage) {
       try {
-        const wire = this.codec.encode(["abort", Devaluator
-            .devaluate(error, undefined, this, undefined, this.codec)]);
-        this.transport.send(wire)
+        const wire = this.sendCodec.encode(["abort", Devaluator
+            .devaluate(error, undefined, this, undefined, this.sendCodec)]);
+        // With an asynchronous codec, this is best-effort, as the transport is aborted below
+        // without waiting for the message to be encoded.
+        Promise.all([wire, this.pendingSends])
+            .then(([wire]) => this.transport.send(wire))
             .catch(err => {});
       } catch (err) {
         // ignore, probably the whole reason we're aborting is because the transport is broken
       }
     }
 
+    this.tearDown(error, false);
+  }
+
+  // Breaks all stubs and promises with `error` and closes the transport, cleanly or not.
+  private tearDown(error: any, clean: boolean) {
     if (error === undefined) {
       // Shouldn't happen, but if it does, avoid setting `abortReason` to `undefined`.
       error = "undefined";
@@ -666,14 +1229,16 @@ class RpcSessionImpl implements Importer, Exporter {
       this.onBatchDone.reject(error);
     }
 
-    if (this.transport.abort) {
-      // Call transport's abort handler, but guard against buggy app code.
-      try {
+    // Call transport's close or abort handler, but guard against buggy app code.
+    try {
+      if (clean && this.transport.close) {
+        this.transport.close();
+      } else if (this.transport.abort) {
         this.transport.abort(error);
-      } catch (err) {
-        // Treat as unhandled rejection.
-        Promise.resolve(err);
       }
+    } catch (err) {
+      // Treat as unhandled rejection.
+      Promise.resolve(err);
     }
 
     // WATCH OUT: these are sparse arrays. `for/let/of` will iterate only positive indexes
@@ -689,6 +1254,11 @@ class RpcSessionImpl implements Importer, Exporter {
     for (let i in this.imports) {
       this.imports[i].abort(error);
     }
+    // Nothing is being forwarded anymore, so let held-back calls through (to fail, most likely).
+    for (let lift of this.embargoes.values()) {
+      lift();
+    }
+    this.embargoes.clear();
     for (let i in this.exports) {
       // Suppress unhandled rejections from pending pulls (e.g., never-resolving promises)
       // if (this.exports[i].pull) {
@@ -696,27 +1266,50 @@ class RpcSessionImpl implements Importer, Exporter {
       // }
       this.exports[i].hook.dispose();
     }
+    for (let exportId of this.provided.keys()) {
+      this.withdraw(exportId);
+    }
   }
 
   private async readLoop(abortPromise: Promise<never>) {
+    let attachments: Uint8Array[] = [];
     while (!this.abortReason) {
       const wire = await Promise.race([this.transport.receive(), abortPromise]);
-      let msg = this.codec.decode(wire);
+      if (this.receiveAttachments && typeof wire !== "string") {
+        // A binary attachment for the next message.
+        attachments.push(wire instanceof Uint8Array ? wire : new Uint8Array(<ArrayBuffer>wire));
+        continue;
+      }
+      let msgAttachments = attachments;
+      attachments = [];
+      let msg = this.receiveCodec.decode(wire);
+      if (msg instanceof Promise) {
+        msg = await Promise.race([msg, abortPromise]);
+      }
       if (this.abortReason) break;  // check again before processing
 
       if (msg instanceof Array) {
         switch (msg[0]) {
           case "push":  // ["push", Expression]
             if (msg.length > 1) {
-              let payload = new Evaluator(this).evaluate(msg[1]);
-              let hook = new PayloadStubHook(payload);
+              let hook: StubHook;
+              if (this.closing) {
+                // We're closing, so don't start new calls. (Evaluating the expression would make
+                // the call.) The push still takes up an export ID.
+                hook = new ErrorStubHook(
+                    new Error("RPC session is closing, so the call was not delivered."));
+              } else {
+                let payload = new Evaluator(this, this.receiveCodec, msgAttachments)
+                    .evaluate(msg[1]);
+                hook = new PayloadStubHook(payload);
+              }
 
               // It's possible for a rejection to occur before the client gets a chance to send
               // a "pull" message or to use the promise in a pipeline. We don't want that to be
               // treated as an unhandled rejection on our end.
               hook.ignoreUnhandledRejections();
 
-              this.exports.push({ hook, refcount: 1 });
+              this.exports.push({ hook, refcount: 1, isCall: true });
               continue;
             }
             break;
@@ -737,11 +1330,14 @@ class RpcSessionImpl implements Importer, Exporter {
               let imp = this.imports[importId];
               if (imp) {
                 if (msg[0] == "resolve") {
-                  imp.resolve(new PayloadStubHook(new Evaluator(this).evaluate(msg[2])));
+                  let evaluator = new Evaluator(this, this.receiveCodec, msgAttachments);
+                  let payload = evaluator.evaluate(msg[2]);
+                  imp.resolve(new PayloadStubHook(payload), evaluator.referencedExports);
                 } else {
                   // HACK: We expect errors are always simple values (no stubs) so we can just
                   //   pull the value out of the payload.
-                  let payload = new Evaluator(this).evaluate(msg[2]);
+                  let payload = new Evaluator(this, this.receiveCodec, msgAttachments)
+                      .evaluate(msg[2]);
                   payload.dispose();  // just in case -- should be no-op
                   imp.resolve(new ErrorStubHook(payload.value));
                 }
@@ -752,7 +1348,7 @@ class RpcSessionImpl implements Importer, Exporter {
                 if (msg[0] == "resolve") {
                   // We need to evaluate the resolution and immediately dispose it so that we
                   // release any stubs it contains.
-                  new Evaluator(this).evaluate(msg[2]).dispose();
+                  new Evaluator(this, this.receiveCodec, msgAttachments).evaluate(msg[2]).dispose();
                 }
               }
               continue;
@@ -770,8 +1366,78 @@ class RpcSessionImpl implements Importer, Exporter {
             break;
           }
 
+          case "hello": {  // ["hello", version, codecNames, features, address?]
+            let [, version, codecs, features, address] = msg;
+            if (!this.peerInfo && typeof version == "number" &&
+                isStringArray(codecs) && isStringArray(features) &&
+                (address === undefined || typeof address == "string")) {
+              this.receiveHello(address === undefined ? {version, codecs, features}
+                                                      : {version, codecs, features, address});
+              continue;
+            }
+            break;
+          }
+
+          case "codec": {  // ["codec", codecName]
+            let codec = this.codecs.find(c => c.name === msg[1]);
+            if (codec) {
+              this.receiveCodec = codec;
+              this.receiveAttachments = this.canUseAttachments(codec);
+              continue;
+            }
+            break;
+          }
+
+          case "disembargo": {  // ["disembargo", ExportId, embargoId]
+            let [, exportId, embargoId] = msg;
+            let exp = typeof exportId == "number" ? this.exports[exportId] : undefined;
+            if (exp && typeof embargoId == "number") {
+              exp.hook.whenCallsForwarded(() => this.send(["disembargoed", embargoId]));
+              continue;
+            }
+            break;
+          }
+
+          case "provide": {  // ["provide", ExportId, token]
+            let [, exportId, token] = msg;
+            if (typeof exportId == "number" && typeof token == "string") {
+              let exp = this.exports[exportId];
+              let handoff = this.options.handoff;
+              let provisions = handoff?.address !== undefined ? provisionsFor(handoff) : undefined;
+              if (exp && provisions && !provisions.has(token)) {
+                provisions.set(token, exp.hook.dup());
+                let tokens = this.provided.get(exportId);
+                if (tokens) {
+                  tokens.push(token);
+                } else {
+                  this.provided.set(exportId, [token]);
+                }
+              }
+              // Otherwise (e.g. the token was already provided, say by a retry), the provision is
+              // just ignored: the recipient then can't claim it, and falls back to the introducer's
+              // proxy. There's no reason to break other calls on this session.
+              continue;
+            }
+            break;
+          }
+
+          case "disembargoed": {  // ["disembargoed", embargoId]
+            let lift = this.embargoes.get(msg[1]);
+            if (lift) {
+              this.embargoes.delete(msg[1]);
+              lift();
+              continue;
+            }
+            break;
+          }
+
+          case "close": {  // ["close"]
+            this.closeWith(new Error("RPC session was closed by the peer."));
+            continue;
+          }
+
           case "abort": {
-            let payload = new Evaluator(this).evaluate(msg[1]);
+            let payload = new Evaluator(this, this.receiveCodec, msgAttachments).evaluate(msg[1]);
             payload.dispose();  // just in case -- should be no-op
             this.abort(payload, false);
             break;
@@ -793,6 +1459,11 @@ class RpcSessionImpl implements Importer, Exporter {
       this.onBatchDone = {resolve, reject};
       await promise;
     }
+
+    // Also wait for the last messages to be encoded and handed to the transport.
+    while (this.pendingSends) {
+      await this.pendingSends;
+    }
   }
 
   getStats(): {imports: number, exports: number} {
@@ -821,7 +1492,7 @@ export class RpcSession {
     } else {
       mainHook = new ErrorStubHook(new Error("This connection has no main object."));
     }
-    this.#session = new RpcSessionImpl(transport, mainHook, options);
+    this.#session = new RpcSessionImpl(transport, mainHook, options, this);
     this.#mainStub = new RpcStub(this.#session.getMainImport());
   }
 
@@ -836,4 +1507,12 @@ export class RpcSession {
   drain(): Promise<void> {
     return this.#session.drain();
   }
+
+  close(): Promise<void> {
+    return this.#session.close();
+  }
+
+  getPeerInfo(): RpcPeerInfo | undefined {
+    return this.#session.getPeerInfo();
+  }
 }
@@ -2,9 +2,10 @@
 // Licensed under the MIT license found in the LICENSE.txt file or at:
 //     https://opensource.org/license/mit
 
-import { StubHook, RpcPayload, RpcStub, RpcPromise, LocatedPromise, RpcTarget, PropertyPath, unwrapStubAndPath, JSON_CODEC } from "./core.js";
+import { StubHook, RpcPayload, RpcStub, RpcPromise, LocatedPromise, RpcTarget, PropertyPath, unwrapStubAndPath, JSON_CODEC, CollectionSlot, CollectionSlots, TargetStubHook, PromiseStubHook, PayloadStubHook, ErrorStubHook, type TypeForRpc } from "./core.js";
 import { RAW_SUBTREE_BRAND } from "./symbols.js";
 import type { Codec, WireMessage } from "./codec.js";
+import { findSerializableClass, getSerializableClass } from "./type-handler.js";
 
 export type ImportId = number;
 export type ExportId = number;
@@ -16,11 +17,24 @@ export interface Exporter {
   exportPromise(hook: StubHook): ExportId;
   getImport(hook: StubHook): ImportId | undefined;
 
+  // If the stub can be handed off to the peer, i.e. the peer can reach its origin directly,
+  // returns the origin's address and the token under which the stub was provided there.
+  handOff?(hook: StubHook): [address: string, token: string] | undefined;
+
   // If a serialization error occurs after having exported some capabilities, this will be called
   // to roll back the exports.
   unexport(ids: Array<ExportId>): void;
 
   onSendError(error: Error): Error | void;
+
+  // If true, only expressions understood by upstream Cap'n Web may be produced, see
+  // `RpcSessionOptions.upstreamCompatible`.
+  readonly upstreamCompatible?: boolean;
+
+  // The optional features the peer listed in its hello, if it sent one (see `RpcPeerInfo`).
+  // Expressions requiring other features aren't produced: values are degraded as they are in
+  // upstream-compatible mode, or fail to serialize.
+  readonly peerFeatures?: readonly string[];
 }
 
 class NullExporter implements Exporter {
@@ -40,12 +54,105 @@ class NullExporter implements Exporter {
 
 const NULL_EXPORTER = new NullExporter();
 
-// Maps error name to error class for deserialization.
-const ERROR_TYPES: Record<string, any> = {
+// Used to serialize the data of custom types and registered classes, which can't contain stubs,
+// for the same peer as `outer`.
+class DataExporter extends NullExporter {
+  constructor(private outer: Exporter) {
+    super();
+  }
+
+  get upstreamCompatible() {
+    return this.outer.upstreamCompatible;
+  }
+
+  get peerFeatures() {
+    return this.outer.peerFeatures;
+  }
+}
+
+type ErrorClass = new (...args: any[]) => Error;
+
+// Error classes that are constructed normally (rather than via `Reflect.construct()`, see below)
+// and that structured clone preserves, so the "error-raw" path can pass them through as-is.
+const BUILTIN_ERROR_TYPES: ErrorClass[] = [
   Error, EvalError, RangeError, ReferenceError, SyntaxError, TypeError, URIError, AggregateError,
-  // TODO: DOMError? Others?
+];
+if (typeof DOMException !== "undefined") {
+  BUILTIN_ERROR_TYPES.push(DOMException);
+}
+
+// Maps error name to error class for deserialization, and each class's prototype back to its
+// name for serialization. Applications can add their own classes with `registerErrorType()`.
+const ERROR_TYPES = new Map<string, ErrorClass>();
+const ERROR_TYPE_NAMES = new Map<object, string>();
+for (let cls of BUILTIN_ERROR_TYPES) {
+  ERROR_TYPES.set(cls.name, cls);
+  ERROR_TYPE_NAMES.set(cls.prototype, cls.name);
+}
+
+/**
+ * Registers an application-defined `Error` subclass so that it survives being thrown across RPC
+ * boundaries, i.e. `instanceof` checks keep working on the receiving end. Both peers must register
+ * the class under the same name.
+ *
+ * On the receiving end, the error is created with the class's prototype but *without* invoking
+ * its constructor, since the constructor may expect arbitrary arguments. `message`, `cause` and
+ * any enumerable own properties set by the constructor (e.g. `this.code = ...`) are restored from
+ * the wire.
+ *
+ * Errors whose class is not registered are sent as the nearest registered superclass.
+ */
+export function registerErrorType(name: string, cls: ErrorClass): void {
+  if (typeof cls !== "function" || !(cls.prototype instanceof Error)) {
+    throw new TypeError("registerErrorType() requires a subclass of Error.");
+  }
+  let existing = ERROR_TYPES.get(name);
+  if (existing && existing !== cls) {
+    throw new Error(`An error type named "${name}" is already registered.`);
+  }
+  let existingName = ERROR_TYPE_NAMES.get(cls.prototype);
+  if (existingName !== undefined && existingName !== name) {
+    throw new Error(`This error class is already registered as "${existingName}".`);
+  }
+  ERROR_TYPES.set(name, cls);
+  ERROR_TYPE_NAMES.set(cls.prototype, name);
+}
+
+// Finds the name under which the error's class, or its nearest registered superclass, is
+// registered.
+function errorTypeName(e: Error): string {
+  for (let proto = Object.getPrototypeOf(e); proto; proto = Object.getPrototypeOf(proto)) {
+    let name = ERROR_TYPE_NAMES.get(proto);
+    if (name !== undefined) return name;
+  }
+  return "Error";
+}
+
+function streamsNotLoaded(): never {
+  throw new Error("RPC stream implementation was not loaded.");
+}
+
+// Streams and async iterables are implemented in `streams.ts`. We can't import it here because it
+// would create an import cycle, so like `mapImpl`, we define hook functions that streams.ts
+// overwrites.
+export let streamImpl: StreamImpl = {
+  wrapStream: streamsNotLoaded,
+  streamFromStub: streamsNotLoaded,
 };
 
+type StreamKind = "readable-stream" | "writable-stream" | "async-iterable";
+
+type StreamImpl = {
+  // Wraps a stream or async iterable in an RpcTarget, which is exported in its place.
+  wrapStream(stream: ReadableStream | WritableStream | AsyncIterable<unknown>): RpcTarget;
+
+  // Wraps a stub for such an RpcTarget back into a stream (or async iterator) of the given kind,
+  // reading ahead as configured for `importer`'s session. The stream calls `release` once it no
+  // longer needs the stub.
+  streamFromStub(kind: StreamKind, stub: RpcStub, release: () => void, importer: Importer)
+      : ReadableStream | WritableStream | AsyncIterableIterator<unknown>;
+}
+
 // Converts an AbortSignal to a Promise that resolves when the signal is aborted.
 function abortSignalToPromise(signal: AbortSignal): Promise<any> {
   return signal.aborted
@@ -96,6 +203,22 @@ interface FromBase64 {
   }): Uint8Array;
 }
 
+function headerEntries(headers: Headers): [string, string][] {
+  let result: [string, string][] = [];
+  headers.forEach((value, name) => result.push([name, value]));
+  return result;
+}
+
+// Fallback for runtimes without `toBase64()`: builds the "binary string" that `btoa()` expects.
+// Converts in chunks since `String.fromCharCode.apply()` overflows the stack on large arrays.
+function bytesToBinaryString(bytes: Uint8Array): string {
+  let parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    parts.push(String.fromCharCode.apply(null, <any>bytes.subarray(i, i + 0x8000)));
+  }
+  return parts.join("");
+}
+
 function typedArrayType(x: unknown): string {
   if (x instanceof Uint8Array) return 'uint8';
   if (x instanceof Uint8ClampedArray) return 'uint8clamped';
@@ -104,7 +227,7 @@ function typedArrayType(x: unknown): string {
   if (x instanceof Int8Array) return 'int8';
   if (x instanceof Int16Array) return 'int16';
   if (x instanceof Int32Array) return 'int32';
-  if (x instanceof globalThis.Float16Array) return 'float16';
+  if (globalThis.Float16Array && x instanceof globalThis.Float16Array) return 'float16';
   if (x instanceof Float32Array) return 'float32';
   if (x instanceof Float64Array) return 'float64';
   if (x instanceof BigInt64Array) return 'bigint64';
@@ -126,13 +249,39 @@ const TYPED_ARRAY_TYPES = {
   'biguint64': BigUint64Array,
 } as const;
 
+// Kinds of values for which there's no expression in upstream Cap'n Web's protocol, by the
+// optional feature (see `RpcPeerInfo.features`) that the peer must support to receive them. They
+// can't be sent in upstream-compatible mode, nor to peers whose hello doesn't list the feature.
+const FEATURE_FOR_KIND: Partial<Record<TypeForRpc, string>> = {
+  "map": "map-set",
+  "set": "map-set",
+  "regexp": "structured-clone",
+  "boxed": "structured-clone",
+  "array-buffer": "typed-arrays",
+  "data-view": "typed-arrays",
+  "headers": "fetch",
+  "request": "fetch",
+  "response": "fetch",
+  "blob": "blob",
+  "custom": "custom-types",
+  "instance": "custom-types",
+  "abort-signal": "abort-signal",
+  "readable-stream": "streams",
+  "writable-stream": "streams",
+  "async-iterable": "streams",
+};
+
+// The longest length a JavaScript array can have.
+const MAX_ARRAY_LENGTH = 2 ** 32 - 1;
+
 // Converts fully-hydrated messages into object trees that are JSON-serializable for sending over
 // the wire. This is used to implement serialization -- but it doesn't take the last step of
 // actually converting to a string. (The name is meant to be the opposite of "Evaluator", which
 // implements the opposite direction.)
 export class Devaluator {
   private constructor(private exporter: Exporter, private source: RpcPayload | undefined,
-                      private codec: Codec) {}
+                      private codec: Codec, private transfer?: Transferable[],
+                      private attachments?: Uint8Array[]) {}
 
   // Devaluate the given value.
   // * value: The value to devaluate.
@@ -140,13 +289,19 @@ export class Devaluator {
   //     as a function.
   // * exporter: Callbacks to the RPC session for exporting capabilities found in this message.
   // * source: The RpcPayload which contains the value, and therefore owns stubs within.
+  // * codec: Decides how each value is classified.
+  // * transfer: If provided, transferables attached to values with `transfer()` are appended to
+  //     this list, for the caller to pass to the transport.
+  // * attachments: If provided, byte arrays that the codec would otherwise have to encode as text
+  //     are appended to this list instead and referenced by index, for the caller to send as
+  //     binary data alongside the message.
   //
   // Returns: The devaluated value, ready to be JSON-serialized.
   public static devaluate(
       value: unknown, parent?: object, exporter: Exporter = NULL_EXPORTER, source?: RpcPayload,
-      codec: Codec = JSON_CODEC)
+      codec: Codec = JSON_CODEC, transfer?: Transferable[], attachments?: Uint8Array[])
       : unknown {
-    let devaluator = new Devaluator(exporter, source, codec);
+    let devaluator = new Devaluator(exporter, source, codec, transfer, attachments);
     try {
       return devaluator.devaluateImpl(value, parent, 0);
     } catch (err) {
@@ -163,13 +318,80 @@ export class Devaluator {
 
   private exports?: Array<ExportId>;
 
+  // Objects, arrays, maps and sets devaluated so far, numbered in the order they were first
+  // encountered, so that repeated (including cyclic) references can be sent as `["ref", n]`. The
+  // Evaluator numbers them in the same order.
+  private refs = new Map<object, number>();
+
+  // Whether the peer can't be sent expressions requiring the given optional feature.
+  private peerLacks(feature: string): boolean {
+    if (this.exporter.upstreamCompatible) {
+      return true;
+    }
+    let features = this.exporter.peerFeatures;
+    return !!features && !features.includes(feature);
+  }
+
+  // If `value` was already devaluated, returns a back-reference to it. Otherwise, numbers it.
+  // Upstream has no back-references, so to peers without them, repeated objects are sent again in
+  // full, and cycles exceed the maximum depth.
+  private backReference(value: object): unknown[] | undefined {
+    if (this.peerLacks("refs")) {
+      return undefined;
+    }
+    let index = this.refs.get(value);
+    if (index !== undefined) {
+      return ["ref", index];
+    }
+    this.refs.set(value, this.refs.size);
+    return undefined;
+  }
+
+  // Forgets objects numbered since `count` objects had been, when their devaluated form is being
+  // dropped from the message.
+  private rollBackRefs(count: number) {
+    for (let [value, index] of this.refs) {
+      if (index >= count) {
+        this.refs.delete(value);
+      }
+    }
+  }
+
   private devaluateImpl(value: unknown, parent: object | undefined, depth: number): unknown {
     if (depth >= 64) {
       throw new Error(
           "Serialization exceeded maximum allowed depth. (Does the message contain cycles?)");
     }
 
+    if (this.transfer && typeof value === "object" && value !== null) {
+      let transferables = TRANSFER_CACHE.get(value);
+      if (transferables) {
+        // Only transfer once; afterwards the transferables are detached anyway.
+        TRANSFER_CACHE.delete(value);
+        this.transfer.push(...transferables);
+      }
+      if (this.transfer.includes(<Transferable>value)) {
+        // The value is itself being transferred (e.g. a MessagePort), so hand it to the transport
+        // as-is, even if the codec wouldn't otherwise support it.
+        return value;
+      }
+    }
+
     let kind = this.codec.typeForRpc(value);
+    let upstream = !!this.exporter.upstreamCompatible;
+    let feature = kind === "bytes" && !(value instanceof Uint8Array)
+        ? "typed-arrays" : FEATURE_FOR_KIND[kind];
+    if (feature && this.peerLacks(feature)) {
+      let type = kind === "bytes" ? (<object>value).constructor.name : kind;
+      if (upstream) {
+        throw new TypeError(`Cannot serialize value of type ${type} in upstream-compatible mode, ` +
+                            "as upstream Cap'n Web peers don't support it.");
+      } else {
+        throw new TypeError(`Cannot serialize value of type ${type}, as the peer doesn't ` +
+                            `support the "${feature}" feature.`);
+      }
+    }
+
     switch (kind) {
       case "unsupported": {
         let msg;
@@ -190,6 +412,9 @@ export class Devaluator {
           } else {
             return ["nan"];
           }
+        } else if (Object.is(value, -0) && !this.peerLacks("structured-clone")) {
+          // JSON would turn it into 0.
+          return ["-0"];
         } else {
           // Supported directly by JSON.
           return value;
@@ -199,9 +424,18 @@ export class Devaluator {
         return value;
 
       case "raw-subtree":
+        if (this.peerLacks("raw-subtree")) {
+          // Upstream has no raw expression, so send the (JSON) data as ordinary expressions. These
+          // take the usual path, so that the objects in it are numbered like the Evaluator will.
+          let data = value instanceof Array ? [...value] : {...<object>value};
+          return this.devaluateImpl(data, parent, depth);
+        }
         return ["raw", value, (<RawSubtreeBranded>value)[RAW_SUBTREE_BRAND]];
 
       case "object": {
+        let ref = this.backReference(<object>value);
+        if (ref) return ref;
+
         let object = <Record<string, unknown>>value;
         let result: Record<string, unknown> = {};
         for (let key in object) {
@@ -211,68 +445,217 @@ export class Devaluator {
       }
 
       case "array": {
+        let ref = this.backReference(<object>value);
+        if (ref) return ref;
+
         let array = <Array<unknown>>value;
         let len = array.length;
-        let result = new Array(len);
+        let result: unknown[] = [];
+        let holes = 0;
+        let sendHoles = !this.peerLacks("structured-clone");
         for (let i = 0; i < len; i++) {
-          result[i] = this.devaluateImpl(array[i], array, depth + 1);
+          if (!(i in array) && sendHoles) {
+            // Runs of holes in sparse arrays are sent as `["hole", count]`.
+            ++holes;
+            continue;
+          }
+          if (holes > 0) {
+            result.push(["hole", holes]);
+            holes = 0;
+          }
+          result.push(this.devaluateImpl(array[i], array, depth + 1));
+        }
+        if (holes > 0) {
+          result.push(["hole", holes]);
         }
         // Wrap literal arrays in an outer one-element array, to "escape" them.
         return [result];
       }
 
+      case "map": {
+        let ref = this.backReference(<object>value);
+        if (ref) return ref;
+
+        let map = <Map<unknown, unknown>>value;
+        let result: unknown[] = [];
+        for (let [k, v] of map) {
+          result.push([this.devaluateImpl(k, map, depth + 1),
+                       this.devaluateImpl(v, map, depth + 1)]);
+        }
+        return ["map", result];
+      }
+
+      case "set": {
+        let ref = this.backReference(<object>value);
+        if (ref) return ref;
+
+        let set = <Set<unknown>>value;
+        let result: unknown[] = [];
+        for (let e of set) {
+          result.push(this.devaluateImpl(e, set, depth + 1));
+        }
+        return ["set", result];
+      }
+
+      case "headers":
+        return ["headers", headerEntries(<Headers>value)];
+
+      case "request": {
+        // Only non-default properties are sent. The body, if any, is sent as a stream.
+        let request = <Request>value;
+        let init: Record<string, unknown> = {};
+        if (request.method !== "GET") init.method = request.method;
+        if (headerEntries(request.headers).length > 0) init.headers = request.headers;
+        if (request.body) init.body = request.body;
+        if (request.redirect !== "follow") init.redirect = request.redirect;
+        return ["request", request.url, this.devaluateFetchInit(init, depth)];
+      }
+
+      case "response": {
+        let response = <Response>value;
+        let init: Record<string, unknown> = {};
+        if (response.status !== 200) init.status = response.status;
+        if (response.statusText !== "") init.statusText = response.statusText;
+        if (headerEntries(response.headers).length > 0) init.headers = response.headers;
+        if (response.body) init.body = response.body;
+        return ["response", this.devaluateFetchInit(init, depth)];
+      }
+
       case "bigint":
         return ["bigint", (<bigint>value).toString()];
 
       case "date":
         return ["date", (<Date>value).getTime()];
 
+      case "regexp": {
+        let regexp = <RegExp>value;
+        return ["regexp", regexp.source, regexp.flags];
+      }
+
+      case "array-buffer":
+        return ["arraybuffer",
+            this.devaluateImpl(new Uint8Array(<ArrayBuffer>value), parent, depth + 1)];
+
+      case "data-view": {
+        let view = <DataView>value;
+        let bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+        return ["dataview", this.devaluateImpl(bytes, parent, depth + 1)];
+      }
+
+      case "boxed":
+        return ["boxed", this.devaluateImpl(
+            (<Boolean | Number | String | BigInt>value).valueOf(), parent, depth + 1)];
+
       case "bytes": {
         let bytes = value instanceof Uint8Array
           ? value
           : ArrayBuffer.isView(value)
             ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
             : (() => { throw new Error("Unreachable") })();
-        if ('toBase64' in bytes) {
-          return ["bytes", (<ToBase64>bytes).toBase64({omitPadding: true}),
-              typedArrayType(value)];
-        } else {
-          return ["bytes",
-              btoa(String.fromCharCode.apply(null, bytes as any).replace(/=*$/, "")),
-              typedArrayType(value)];
+        if (this.attachments) {
+          this.attachments.push(bytes);
+          return ["bytes", this.attachments.length - 1, typedArrayType(value)];
         }
+        let base64 = 'toBase64' in bytes
+            ? (<ToBase64>bytes).toBase64({omitPadding: true})
+            : btoa(bytesToBinaryString(bytes)).replace(/=*$/, "");
+        // Upstream only supports `Uint8Array`s, without the type.
+        return this.peerLacks("typed-arrays") ? ["bytes", base64]
+                                              : ["bytes", base64, typedArrayType(value)];
       }
 
       case "error":
       case "error-raw": {
         let e = <Error>value;
 
-        // TODO:
-        // - Determine type by checking prototype rather than `name`, which can be overridden?
-        // - Serialize cause / suppressed error / etc.
-        // - Serialize added properties.
-
         let rewritten = this.exporter.onSendError(e);
         if (rewritten) {
           e = rewritten;
         }
-        if (kind === "error-raw") {
+
+        // The type is determined by the prototype chain rather than by `name`, which is just a
+        // string property that anyone can override.
+        let type = errorTypeName(e);
+        let cls = ERROR_TYPES.get(type)!;
+
+        // Extra properties to send along: `cause`, `AggregateError.errors`, and any enumerable own
+        // properties the app added (e.g. `code`). `name` is included if it differs from the
+        // class's default, e.g. a `DOMException` named "AbortError".
+        let extraKeys = Object.keys(e).filter(key => key !== "message" && key !== "stack");
+        if (Object.hasOwn(e, "cause") && !extraKeys.includes("cause")) {
+          extraKeys.push("cause");
+        }
+        if (e instanceof AggregateError && !extraKeys.includes("errors")) {
+          extraKeys.push("errors");
+        }
+        if (e.name !== type && !extraKeys.includes("name")) {
+          extraKeys.push("name");
+        }
+
+        if (upstream) {
+          // Upstream only supports the type, message and stack.
+          extraKeys = [];
+        }
+
+        if (kind === "error-raw" && !upstream && extraKeys.length === 0 && BUILTIN_ERROR_TYPES.includes(cls)) {
           if (!rewritten || !rewritten.stack) {
             Reflect.deleteProperty(e, "stack");
           }
           return e;
         }
 
-        let result = ["error", e.name, e.message];
+        let result: unknown[] = ["error", type, e.message];
         if (rewritten && rewritten.stack) {
           result.push(rewritten.stack);
         }
+
+        if (extraKeys.length > 0) {
+          let props: Record<string, unknown> = {};
+          for (let key of extraKeys) {
+            // A property that can't be serialized is dropped rather than failing the whole error,
+            // since losing the error itself would be far worse for debugging.
+            let exportCount = this.exports?.length ?? 0;
+            let refCount = this.refs.size;
+            try {
+              props[key] = this.devaluateImpl((<any>e)[key], e, depth + 1);
+            } catch (err) {
+              if (this.exports && this.exports.length > exportCount) {
+                this.exporter.unexport(this.exports.splice(exportCount));
+              }
+              this.rollBackRefs(refCount);
+            }
+          }
+          if (result.length === 3) {
+            result.push(null);
+          }
+          result.push(props);
+        }
         return result;
       }
 
       case "undefined":
         return ["undefined"];
 
+      case "custom": {
+        let handler = this.codec.findTypeHandler!(value)!;
+        // The handler's data is serialized on its own (with its own back-references), without an
+        // exporter, so that it can't contain stubs. It can still contain any other type the peer
+        // supports, including other custom types.
+        let data = Devaluator.devaluate(
+            handler.serialize(value), undefined, new DataExporter(this.exporter), undefined,
+            this.codec, this.transfer, this.attachments);
+        return ["custom", handler.name, data];
+      }
+
+      case "instance": {
+        // Like custom types, but registered globally with `registerSerializableClass()`.
+        let cls = findSerializableClass(<object>value)!;
+        let data = Devaluator.devaluate(
+            cls.toJSON(value), undefined, new DataExporter(this.exporter), undefined, this.codec,
+            this.transfer, this.attachments);
+        return ["instance", cls.name, data];
+      }
+
       case "stub":
       case "rpc-promise": {
         if (!this.source) {
@@ -294,6 +677,14 @@ export class Devaluator {
           }
         }
 
+        if (!pathIfPromise) {
+          let handoff = this.exporter.handOff?.(hook);
+          if (handoff) {
+            // The export is still needed, as the fallback if the peer can't connect.
+            return this.devaluateHook("handoff", hook.dup(), ...handoff);
+          }
+        }
+
         if (pathIfPromise) {
           hook = hook.get(pathIfPromise);
         } else {
@@ -338,8 +729,49 @@ export class Devaluator {
           : <Promise<unknown>>value;
         
         let hook = this.source.getHookForNativePromise(promise);
-        
-        return this.devaluateHook("promise", hook, kind);
+
+        // Upstream peers will see a native promise as an `RpcPromise`, which can be awaited all
+        // the same. (Abort signals were rejected above.)
+        return kind === "native-promise" && this.peerLacks("native-promise")
+            ? this.devaluateHook("promise", hook)
+            : this.devaluateHook("promise", hook, kind);
+      }
+
+      case "blob": {
+        if (!this.source) {
+          throw new Error("Can't serialize a Blob in this context, as its contents are only " +
+                          "available asynchronously.");
+        }
+
+        // The contents are exported as a promise, which the receiver waits for before delivering
+        // the message, like any other promise in it.
+        let blob = <Blob>value;
+        let contents = blob.arrayBuffer().then(buffer => new Uint8Array(buffer));
+        let exportId = this.exporter.exportPromise(this.source.getHookForNativePromise(contents));
+        if (!this.exports) this.exports = [];
+        this.exports.push(exportId);
+
+        if (typeof File !== "undefined" && blob instanceof File) {
+          return ["file", exportId, blob.type, blob.name, blob.lastModified];
+        } else {
+          return ["blob", exportId, blob.type];
+        }
+      }
+
+      case "readable-stream":
+      case "writable-stream":
+      case "async-iterable": {
+        if (!this.source) {
+          throw new Error("Can't serialize RPC stubs in this context.");
+        }
+
+        // Streams are exported as an RpcTarget wrapping the stream, flagged so that the receiver
+        // wraps the stub back into a stream. Unlike RpcTargets found in the payload, the wrapper
+        // is owned solely by the export, as nothing else can refer to it.
+        let target = streamImpl.wrapStream(
+            <ReadableStream | WritableStream | AsyncIterable<unknown>>value);
+        let hook = TargetStubHook.create(target, undefined);
+        return this.devaluateHook("export", hook, kind);
       }
 
       default:
@@ -348,7 +780,17 @@ export class Devaluator {
     }
   }
 
-  private devaluateHook(type: "export" | "promise", hook: StubHook, ...meta: string[]): unknown {
+  // Devaluates the init object of a "request" or "response" expression. Unlike a plain object in
+  // the message, it isn't numbered for back-references, since the Evaluator doesn't see it as one.
+  private devaluateFetchInit(init: Record<string, unknown>, depth: number): unknown {
+    let result: Record<string, unknown> = {};
+    for (let key in init) {
+      result[key] = this.devaluateImpl(init[key], init, depth + 1);
+    }
+    return result;
+  }
+
+  private devaluateHook(type: "export" | "promise" | "handoff", hook: StubHook, ...meta: string[]): unknown {
     if (!this.exports) this.exports = [];
     let exportId = type === "promise" ? this.exporter.exportPromise(hook)
                                       : this.exporter.exportStub(hook);
@@ -357,12 +799,36 @@ export class Devaluator {
   }
 }
 
+const TRANSFER_CACHE = new WeakMap<object, Transferable[]>();
+
+/**
+ * Marks `value` so that, when it is sent over a session whose transport uses `postMessage()` (i.e.
+ * MessagePort and Endpoint sessions), `transferables` are transferred rather than copied, like
+ * `Comlink.transfer()`. Returns `value` itself, so it can be used inline:
+ *
+ *     await worker.process(transfer(buffer, [buffer]));
+ *
+ * `value` may also be a transferable itself, such as a `MessagePort` or transferable stream, which
+ * is then handed to the transport as-is even if the codec doesn't otherwise support it. (That only
+ * makes sense with a codec that doesn't encode messages, such as the default postMessage codec.)
+ * Transports that don't support transfer ignore the transfer list.
+ */
+export function transfer<T extends object>(value: T, transferables: Transferable[]): T {
+  TRANSFER_CACHE.set(value, transferables);
+  return value;
+}
+
 /**
  * Serialize a value, using Cap'n Web's underlying serialization. This won't be able to serialize
  * RPC stubs, but it will support basic data types.
  */
 export function serialize(value: unknown, codec: Codec = JSON_CODEC): WireMessage {
-  return codec.encode(Devaluator.devaluate(value, codec));
+  let wire = codec.encode(Devaluator.devaluate(value, undefined, undefined, undefined, codec));
+  if (wire instanceof Promise) {
+    wire.catch(() => {});
+    throw new TypeError("serialize() doesn't support asynchronous codecs.");
+  }
+  return wire;
 }
 
 export enum RawFeatures {
@@ -421,6 +887,18 @@ export interface Importer {
   // Unregister an object from GC-based cleanup (called when explicitly disposed).
   // Prevents double-release when an object is both explicitly disposed and GC'd.
   unregisterGCCleanup?(target: object): void;
+
+  // Claims a stub provided for handoff under the given token, see `Exporter.handOff()`.
+  acceptHandoff?(token: string): StubHook | undefined;
+
+  // Returns the hook to use for a stub handed off by the peer, whose proxy is `fallback`.
+  receiveHandoff?(fallback: StubHook, address: string, token: string): StubHook;
+
+  // See `RpcSessionOptions.asyncIteratorPrefetch`.
+  readonly asyncIteratorPrefetch?: number;
+
+  // See `RpcSessionOptions.streamReadAhead`.
+  readonly streamReadAhead?: number;
 }
 
 class NullImporter implements Importer {
@@ -441,11 +919,18 @@ const NULL_IMPORTER = new NullImporter();
 // delivery to the app. This is used to implement deserialization, except that it doesn't actually
 // start from a raw string.
 export class Evaluator {
-  constructor(private importer: Importer) {}
+  // `attachments` are the binary attachments received along with the message, if any, which
+  // "bytes" expressions may refer to by index.
+  constructor(private importer: Importer, private codec: Codec = JSON_CODEC,
+              private attachments?: Uint8Array[]) {}
 
   private stubs: RpcStub[] = [];
   private promises: LocatedPromise[] = [];
 
+  // Set once an "import" or "pipeline" expression has been evaluated, i.e. the sender passed one
+  // of our own exports back to us.
+  public referencedExports = false;
+
   public evaluate(value: unknown): RpcPayload {
     let payload = RpcPayload.forEvaluate(this.stubs, this.promises);
     try {
@@ -457,19 +942,66 @@ export class Evaluator {
     }
   }
 
+  // Objects, arrays, maps and sets evaluated so far, in the order the Devaluator numbered them, for
+  // `["ref", n]` to refer to.
+  private refs: unknown[] = [];
+
   // Evaluate the value without destroying it.
   public evaluateCopy(value: unknown): RpcPayload {
     return this.evaluate(structuredClone(value));
   }
 
+  // Evaluates the init object of a "request" or "response" expression, keeping only `headers`,
+  // `body`, and the given primitive properties.
+  private evaluateFetchInit(value: unknown, keys: string[]): RequestInit & ResponseInit {
+    if (typeof value !== "object" || value === null || value instanceof Array) {
+      throw new TypeError(`invalid request or response: ${JSON.stringify(value)}`);
+    }
+    let encoded = <Record<string, unknown>>value;
+    let init: Record<string, unknown> = {};
+    for (let key of keys) {
+      if (Object.hasOwn(encoded, key)) {
+        init[key] = encoded[key];
+      }
+    }
+    if (Object.hasOwn(encoded, "headers")) {
+      init.headers = this.evaluateImpl(encoded.headers, init, "headers");
+      if (!(init.headers instanceof Headers)) {
+        throw new TypeError("invalid request or response headers");
+      }
+    }
+    if (Object.hasOwn(encoded, "body")) {
+      init.body = this.evaluateImpl(encoded.body, init, "body");
+      if (!(init.body instanceof ReadableStream)) {
+        throw new TypeError("invalid request or response body");
+      }
+    }
+    return init;
+  }
+
   private evaluateImpl(value: unknown, parent: object, property: string | number): unknown {
     if (value instanceof Array) {
       if (value.length == 1 && value[0] instanceof Array) {
         // Escaped array. Evaluate the contents.
-        let result = value[0];
-        for (let i = 0; i < result.length; i++) {
-          result[i] = this.evaluateImpl(result[i], result, i);
+        let elements = value[0];
+        let result: unknown[] = [];
+        this.refs.push(result);
+        let index = 0;
+        for (let element of elements) {
+          if (element instanceof Array && element[0] === "hole") {
+            if (element.length !== 2 || !Number.isSafeInteger(element[1]) || element[1] <= 0) {
+              throw new TypeError(`invalid hole: ${JSON.stringify(element)}`);
+            }
+            index += element[1];
+          } else {
+            result[index] = this.evaluateImpl(element, result, index);
+            ++index;
+          }
+          if (index > MAX_ARRAY_LENGTH) {
+            throw new TypeError(`array with holes is too long: ${index} elements`);
+          }
         }
+        result.length = index;
         return result;
       } else switch (value[0]) {
         case "bigint":
@@ -482,11 +1014,51 @@ export class Evaluator {
             return new Date(value[1]);
           }
           break;
+        case "regexp":
+          if (value.length === 3 && typeof value[1] === "string" && typeof value[2] === "string") {
+            return new RegExp(value[1], value[2]);
+          }
+          break;
+        case "arraybuffer":
+        case "dataview":
+          if (value.length === 2) {
+            let bytes = this.evaluateImpl(value[1], parent, property);
+            if (!(bytes instanceof Uint8Array)) {
+              throw new TypeError(`invalid ${value[0]} contents`);
+            }
+            if (value[0] === "dataview") {
+              return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+            } else if (bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength) {
+              return bytes.buffer;
+            } else {
+              return bytes.slice().buffer;
+            }
+          }
+          break;
+        case "boxed":
+          if (value.length === 2) {
+            let inner = this.evaluateImpl(value[1], parent, property);
+            switch (typeof inner) {
+              case "boolean":
+              case "number":
+              case "string":
+              case "bigint":
+                return Object(inner);
+            }
+            throw new TypeError(`invalid boxed primitive: ${JSON.stringify(value)}`);
+          }
+          break;
         case "bytes": {
           let b64 = Uint8Array as FromBase64;
-          if (typeof value[1] == "string") {
-            let bytes;
-            if (b64.fromBase64) {
+          if (typeof value[1] == "string" || typeof value[1] == "number") {
+            let bytes: Uint8Array;
+            if (typeof value[1] == "number") {
+              let attachment = this.attachments?.[value[1]];
+              if (!attachment) {
+                throw new TypeError(`missing binary attachment: ${value[1]}`);
+              }
+              bytes = attachment;
+            } else if (b64.fromBase64) {
               bytes = b64.fromBase64(value[1]);
             } else {
               let bs = atob(value[1]);
@@ -498,6 +1070,9 @@ export class Evaluator {
             }
             if (value[2] in TYPED_ARRAY_TYPES) {
               let Ctor = TYPED_ARRAY_TYPES[value[2] as keyof typeof TYPED_ARRAY_TYPES];
+              if (bytes.byteOffset % Ctor.BYTES_PER_ELEMENT !== 0) {
+                bytes = bytes.slice();  // realign
+              }
               let len = Math.ceil(bytes.byteLength / Ctor.BYTES_PER_ELEMENT);
               return new (<any>Ctor)(bytes.buffer, bytes.byteOffset, len);
             }
@@ -507,11 +1082,46 @@ export class Evaluator {
         }
         case "error":
           if (value.length >= 3 && typeof value[1] === "string" && typeof value[2] === "string") {
-            let cls = ERROR_TYPES[value[1]] || Error;
-            let result = new cls(value[2]);
+            let props = value[4];
+            if (!(props instanceof Object) || props instanceof Array) {
+              props = {};
+            }
+
+            let cls = ERROR_TYPES.get(value[1]) || Error;
+            let result: any;
+            if (cls === AggregateError) {
+              result = new AggregateError([], value[2]);
+            } else if (typeof DOMException !== "undefined" && cls === DOMException) {
+              // A DOMException's name can only be set through the constructor.
+              result = new DOMException(value[2],
+                  typeof props.name === "string" ? props.name : undefined);
+              delete props.name;
+            } else if (BUILTIN_ERROR_TYPES.includes(cls)) {
+              result = new cls(value[2]);
+            } else {
+              // Application-defined class. Don't run its constructor, which may expect different
+              // arguments; the properties it would have set are restored below.
+              result = Reflect.construct(Error, [value[2]], cls);
+            }
             if (typeof value[3] === "string") {
               result.stack = value[3];
             }
+
+            for (let key in props) {
+              if (key in Object.prototype || key === "toJSON") {
+                // Same caution as for plain objects, below.
+                this.evaluateImpl(props[key], props, key);
+              } else {
+                // `cause` and `errors` are non-enumerable, like the originals. We define rather
+                // than assign so that accessors on the prototype aren't invoked.
+                Object.defineProperty(result, key, {
+                  value: this.evaluateImpl(props[key], result, key),
+                  writable: true,
+                  enumerable: key !== "cause" && key !== "errors",
+                  configurable: true,
+                });
+              }
+            }
             return result;
           }
           break;
@@ -520,18 +1130,139 @@ export class Evaluator {
             return undefined;
           }
           break;
+        case "headers":
+          if (value.length === 2 && value[1] instanceof Array) {
+            let result = new Headers();
+            for (let entry of value[1]) {
+              if (!(entry instanceof Array) || entry.length !== 2 ||
+                  typeof entry[0] !== "string" || typeof entry[1] !== "string") {
+                throw new TypeError(`invalid header: ${JSON.stringify(entry)}`);
+              }
+              result.append(entry[0], entry[1]);
+            }
+            return result;
+          }
+          break;
+        case "request":
+          if (value.length === 3 && typeof value[1] === "string") {
+            let init = this.evaluateFetchInit(value[2], ["method", "redirect"]);
+            if (init.body) {
+              // Required by the Fetch API to construct a request with a streaming body.
+              (<any>init).duplex = "half";
+            }
+            return new Request(value[1], init);
+          }
+          break;
+        case "response":
+          if (value.length === 2) {
+            let { body, ...init } = this.evaluateFetchInit(value[1], ["status", "statusText"]);
+            return new Response(body ?? null, init);
+          }
+          break;
+        case "blob":
+        case "file":
+          if (typeof value[1] === "number" && typeof value[2] === "string" &&
+              (value[0] === "blob" ? value.length === 3
+                  : value.length === 5 && typeof value[3] === "string" &&
+                    typeof value[4] === "number")) {
+            let type = value[2];
+            let name = value[3];
+            let lastModified = value[4];
+            let contents = new RpcPromise(this.importer.importPromise(value[1]), []);
+            let blob = contents.then(bytes => {
+              if (!(bytes instanceof Uint8Array)) {
+                throw new TypeError("invalid Blob contents");
+              }
+              let parts = [<BlobPart>bytes];
+              return value[0] === "file" ? new File(parts, name, {type, lastModified})
+                                         : new Blob(parts, {type});
+            }).finally(() => contents[Symbol.dispose]());
+
+            // Substituted with the Blob before delivery, like a promise.
+            let promise = new RpcPromise(new PromiseStubHook(blob.then(
+                blob => new PayloadStubHook(RpcPayload.fromAppReturn(blob)),
+                error => new ErrorStubHook(error))), []);
+            this.promises.push({parent, property, promise});
+            return promise;
+          }
+          break;
+        case "map":
+          if (value.length === 2 && value[1] instanceof Array) {
+            let result = new Map<unknown, unknown>();
+            this.refs.push(result);
+            let slots = new CollectionSlots(result);
+            for (let entry of value[1]) {
+              if (!(entry instanceof Array) || entry.length !== 2) {
+                throw new TypeError(`invalid map entry: ${JSON.stringify(entry)}`);
+              }
+              // Any promises in the entry are located via the slot, since they can't be
+              // substituted by assigning a property of the Map.
+              let slot = new CollectionSlot(slots);
+              slot.currentKey = this.evaluateImpl(entry[0], slot, "key");
+              slot.currentValue = this.evaluateImpl(entry[1], slot, "value");
+              slots.add(slot);
+            }
+            return result;
+          }
+          break;
+        case "set":
+          if (value.length === 2 && value[1] instanceof Array) {
+            let result = new Set<unknown>();
+            this.refs.push(result);
+            let slots = new CollectionSlots(result);
+            for (let element of value[1]) {
+              let slot = new CollectionSlot(slots);
+              slot.currentKey = this.evaluateImpl(element, slot, "key");
+              slots.add(slot);
+            }
+            return result;
+          }
+          break;
+        case "custom":
+          if (value.length === 3 && typeof value[1] === "string") {
+            let handler = this.codec.getTypeHandler?.(value[1]);
+            if (!handler) {
+              throw new TypeError(`no type handler for custom type: ${value[1]}`);
+            }
+            // Like on the sending side, the data is evaluated separately and can't contain stubs.
+            let data = new Evaluator(NULL_IMPORTER, this.codec, this.attachments)
+                .evaluate(value[2]);
+            data.dispose();  // should be no-op but just in case
+            return handler.deserialize(data.value);
+          }
+          break;
+        case "instance":
+          if (value.length === 3 && typeof value[1] === "string") {
+            let cls = getSerializableClass(value[1]);
+            if (!cls) {
+              throw new TypeError(`unknown serializable class: ${value[1]}`);
+            }
+            let data = new Evaluator(NULL_IMPORTER, this.codec, this.attachments)
+                .evaluate(value[2]);
+            data.dispose();  // should be no-op but just in case
+            return cls.fromJSON(data.value);
+          }
+          break;
         case "raw":
           // Raw subtree marker - return the data as-is without traversal
           if (value.length === 3 && typeof value[2] === "number") {
             return raw(value[1], value[2]);
           }
           break;
+        case "ref":
+          if (value.length === 2 && Number.isInteger(value[1]) &&
+              value[1] >= 0 && value[1] < this.refs.length) {
+            return this.refs[value[1]];
+          }
+          break;
         case "inf":
           return Infinity;
         case "-inf":
           return -Infinity;
         case "nan":
           return NaN;
+        case "-0":
+          return -0;
 
         case "import":
         case "pipeline": {
@@ -552,6 +1283,7 @@ export class Evaluator {
           if (!hook) {
             throw new Error(`no such entry on exports table: ${value[1]}`);
           }
+          this.referencedExports = true;
 
           let isPromise = value[0] == "pipeline";
 
@@ -607,7 +1339,7 @@ export class Evaluator {
           }
 
           // We need a new evaluator for the args, to build a separate payload.
-          let subEval = new Evaluator(this.importer);
+          let subEval = new Evaluator(this.importer, this.codec, this.attachments);
           args = subEval.evaluate([args]);
 
           return addStub(hook.call(path, args));
@@ -661,6 +1393,40 @@ export class Evaluator {
           return promise;
         }
 
+        case "handoff": {  // ["handoff", ExportId, address, token]
+          // Like "export", but the object can also be reached directly at its origin.
+          if (value.length !== 4 || typeof value[1] != "number" ||
+              typeof value[2] != "string" || typeof value[3] != "string") {
+            break;   // report error below
+          }
+
+          let hook = this.importer.importStub(value[1]);
+          if (this.importer.receiveHandoff) {
+            hook = this.importer.receiveHandoff(hook, value[2], value[3]);
+          }
+          let stub = new RpcStub(hook);
+          this.stubs.push(stub);
+          return stub;
+        }
+
+        case "accept": {  // ["accept", token]
+          if (value.length !== 2 || typeof value[1] != "string" || !this.importer.acceptHandoff) {
+            break;   // report error below
+          }
+
+          let hook = this.importer.acceptHandoff(value[1]);
+          if (!hook) {
+            // Evaluate to a rejected promise, so that the third party falls back to the proxy.
+            let promise = new RpcPromise(
+                new ErrorStubHook(new Error("No such handoff, or it was already accepted.")), []);
+            this.promises.push({promise, parent, property});
+            return promise;
+          }
+          let stub = new RpcStub(hook);
+          this.stubs.push(stub);
+          return stub;
+        }
+
         case "export":
         case "promise":
           // It's an "export" from the perspective of the sender, i.e. they sent us a new object
@@ -691,6 +1457,22 @@ export class Evaluator {
               // RpcTarget promises: Auto-pull and substitute resolved value before delivery
               this.promises.push({parent, property, promise});
               return promise;
+            } else if (value[2] === "readable-stream" || value[2] === "writable-stream" ||
+                       value[2] === "async-iterable") {
+              // The stream owns the stub rather than the payload, since the app may keep using
+              // the stream after the payload is disposed.
+              let stub = new RpcStub(this.importer.importStub(value[1]));
+              let released = false;
+              let release = () => {
+                if (!released) {
+                  released = true;
+                  this.importer.unregisterGCCleanup?.(stream);
+                  stub[Symbol.dispose]();
+                }
+              };
+              let stream = streamImpl.streamFromStub(value[2], stub, release, this.importer);
+              this.importer.registerForGCCleanup?.(stream, value[1], 1);
+              return stream;
             } else {
               let hook = this.importer.importStub(value[1]);
               let stub = new RpcStub(hook);
@@ -701,8 +1483,20 @@ export class Evaluator {
           break;
       }
       throw new TypeError(`unknown special value: ${JSON.stringify(value)}`);
+    } else if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer ||
+               value instanceof Date || value instanceof RegExp || value instanceof Boolean ||
+               value instanceof Number || value instanceof String ||
+               (typeof Blob !== "undefined" && value instanceof Blob)) {
+      // Passed through natively by a binary or structured-clone codec. There's nothing inside to
+      // evaluate, and walking the elements of a large buffer one by one would be wasteful.
+      return value;
     } else if (value instanceof Object) {
       let result = <Record<string, unknown>>value;
+      if (Object.getPrototypeOf(result) === Object.prototype) {
+        // A plain object, numbered like on the sending side. (Other objects get here only when
+        // passed through natively by the codec.)
+        this.refs.push(result);
+      }
       for (let key in result) {
         if (key in Object.prototype || key === "toJSON") {
           // Out of an abundance of caution, we will ignore properties that override properties
@@ -733,7 +1527,12 @@ export class Evaluator {
  * Deserialize a value serialized using serialize().
  */
 export function deserialize(value: WireMessage, codec: Codec = JSON_CODEC): unknown {
-  let payload = new Evaluator(NULL_IMPORTER).evaluate(codec.decode(value));
+  let message = codec.decode(value);
+  if (message instanceof Promise) {
+    message.catch(() => {});
+    throw new TypeError("deserialize() doesn't support asynchronous codecs.");
+  }
+  let payload = new Evaluator(NULL_IMPORTER, codec).evaluate(message);
   payload.dispose();  // should be no-op but just in case
   return payload.value;
 }
@@ -0,0 +1,398 @@
+import { RpcTarget, RpcStub } from "./core.js";
+import { streamImpl, type Importer } from "./serialize.js";
+
+// Streams (and async iterables) are passed over RPC by exporting an RpcTarget wrapping the stream,
+// which the receiving end wraps in a new stream of the same kind. Flow control therefore rides on
+// ordinary calls: each chunk read or written is one call on the export, and the number of calls
+// that may be in flight at once is bounded.
+
+// How many `write()` calls a WritableStream received over RPC may have in flight before further
+// writes wait for the oldest to complete. Writes are pipelined rather than waiting for each
+// round trip, but are still subject to backpressure from the remote stream.
+const MAX_WRITES_IN_FLIGHT = 16;
+
+// How many `read()` calls a ReadableStream received over RPC makes ahead of its consumer by
+// default, so that chunks don't each take a round trip. The source's own backpressure still
+// applies, as each call waits for a chunk. See `RpcSessionOptions.streamReadAhead`.
+const STREAM_READ_AHEAD = 15;
+
+// How many `next()` calls an async iterator received over RPC makes ahead of its consumer, by
+// default. See `RpcSessionOptions.asyncIteratorPrefetch`.
+const ASYNC_ITERATOR_PREFETCH = 3;
+
+/**
+ * Exported in place of a `ReadableStream` sent over RPC. The receiving end pulls chunks by calling
+ * `read()` as its consumer asks for them, and `cancel()` if its consumer cancels the stream.
+ *
+ * The stream is only locked once the remote end first reads from it, so that it stays usable if
+ * the message carrying it is never sent, e.g. because serializing the rest of it failed.
+ */
+export class ReadableStreamSource extends RpcTarget {
+  constructor(stream: ReadableStream) {
+    super();
+    this.#stream = stream;
+  }
+
+  #stream: ReadableStream;
+  #reader?: ReadableStreamDefaultReader;
+  #done = false;
+
+  async read(): Promise<ReadableStreamReadResult<unknown>> {
+    this.#reader ??= this.#stream.getReader();
+    let result = await this.#reader.read();
+    if (result.done) {
+      this.#done = true;
+    }
+    return result;
+  }
+
+  async cancel(reason?: any): Promise<void> {
+    this.#done = true;
+    await (this.#reader ?? this.#stream).cancel(reason);
+  }
+
+  [Symbol.dispose]() {
+    // If the remote end lets go of the stream without reading it to the end, cancel it. If it
+    // never read at all, the stream is left alone.
+    if (!this.#done && this.#reader) {
+      this.#done = true;
+      this.#reader.cancel(new Error("ReadableStream was released by the remote end."))
+          .catch(() => {});
+    }
+  }
+}
+
+/**
+ * Exported in place of a `WritableStream` sent over RPC. The receiving end forwards its writes,
+ * `close()` and `abort()` here.
+ *
+ * Like `ReadableStreamSource`, the stream is only locked once the remote end first uses it.
+ */
+export class WritableStreamSink extends RpcTarget {
+  constructor(stream: WritableStream) {
+    super();
+    this.#stream = stream;
+  }
+
+  #stream: WritableStream;
+  #writer?: WritableStreamDefaultWriter;
+  #done = false;
+
+  #getWriter(): WritableStreamDefaultWriter {
+    return this.#writer ??= this.#stream.getWriter();
+  }
+
+  async write(chunk: unknown): Promise<void> {
+    await this.#getWriter().write(chunk);
+  }
+
+  async close(): Promise<void> {
+    this.#done = true;
+    await this.#getWriter().close();
+  }
+
+  async abort(reason?: any): Promise<void> {
+    this.#done = true;
+    await this.#getWriter().abort(reason);
+  }
+
+  [Symbol.dispose]() {
+    // If the remote end lets go of the stream without closing it, the data is incomplete, so abort.
+    // If it never used the stream at all, the stream is left alone.
+    if (!this.#done && this.#writer) {
+      this.#done = true;
+      this.#writer.abort(new Error("WritableStream was released by the remote end."))
+          .catch(() => {});
+    }
+  }
+}
+
+/**
+ * Exported in place of an async iterable (such as an async generator) sent over RPC. The receiving
+ * end forwards `next()`, `return()` and `throw()` calls here.
+ *
+ * Like `ReadableStreamSource`, iteration only starts once the remote end first uses it.
+ */
+export class AsyncIteratorSource extends RpcTarget {
+  constructor(iterable: AsyncIterable<unknown>) {
+    super();
+    this.#iterable = iterable;
+  }
+
+  #iterable: AsyncIterable<unknown>;
+  #started?: AsyncIterator<unknown>;
+  #done = false;
+
+  #getIterator(): AsyncIterator<unknown> {
+    return this.#started ??= this.#iterable[Symbol.asyncIterator]();
+  }
+
+  async next(value?: unknown): Promise<IteratorResult<unknown>> {
+    let result = await this.#getIterator().next(value);
+    if (result.done) {
+      this.#done = true;
+    }
+    return result;
+  }
+
+  async return(value?: unknown): Promise<IteratorResult<unknown>> {
+    this.#done = true;
+    let iterator = this.#getIterator();
+    if (iterator.return) {
+      return await iterator.return(value);
+    } else {
+      return { done: true, value };
+    }
+  }
+
+  async throw(error?: any): Promise<IteratorResult<unknown>> {
+    let iterator = this.#getIterator();
+    if (iterator.throw) {
+      let result = await iterator.throw(error);
+      if (result.done) {
+        this.#done = true;
+      }
+      return result;
+    } else {
+      // Same as what `yield*` does for iterators without `throw()`: close it, then throw.
+      await this.return();
+      throw error;
+    }
+  }
+
+  [Symbol.dispose]() {
+    // If the remote end stops iterating without finishing, let the iterator clean up (e.g. run an
+    // async generator's `finally` blocks).
+    if (!this.#done && this.#started) {
+      this.#done = true;
+      this.#started.return?.()?.catch(() => {});
+    }
+  }
+}
+
+// The methods of the above as seen through a stub.
+type RemoteReadableStreamSource = {
+  read(): Promise<ReadableStreamReadResult<unknown>>;
+  cancel(reason?: any): Promise<void>;
+};
+type RemoteWritableStreamSink = {
+  write(chunk: unknown): Promise<void>;
+  close(): Promise<void>;
+  abort(reason?: any): Promise<void>;
+};
+type RemoteAsyncIteratorSource = {
+  next(value?: unknown): Promise<IteratorResult<unknown>>;
+  return(value?: unknown): Promise<IteratorResult<unknown>>;
+  throw(error?: any): Promise<IteratorResult<unknown>>;
+};
+
+// Creates a ReadableStream that reads from a `ReadableStreamSource` on the other end. `release` is
+// called once the stream is finished with the stub, whether closed, errored, or canceled.
+//
+// Like the async iterator below, each pull tops up the reads in flight to `readAhead` plus the one
+// it waits for, so chunks arrive while the consumer is busy with earlier ones. The stream doesn't
+// queue chunks itself, so it only pulls when the consumer reads. Once the stream ends, the reads
+// still in flight are waited for before releasing the stub; they complete right away, as the
+// source has ended too.
+export function readableStreamFromStub(
+    stub: RemoteReadableStreamSource, release: () => void,
+    readAhead: number = STREAM_READ_AHEAD): ReadableStream {
+  let inFlight: Promise<ReadableStreamReadResult<unknown>>[] = [];
+
+  let settleAndRelease = async () => {
+    let remaining = inFlight;
+    inFlight = [];
+    await Promise.allSettled(remaining);
+    release();
+  };
+
+  return new ReadableStream({
+    async pull(controller) {
+      while (inFlight.length < readAhead + 1) {
+        let promise = stub.read().then(result => result);
+        promise.catch(() => {});  // avoid unhandled rejection until we await it
+        inFlight.push(promise);
+      }
+
+      let result;
+      try {
+        result = await inFlight.shift()!;
+      } catch (err) {
+        await settleAndRelease();
+        throw err;
+      }
+      if (result.done) {
+        await settleAndRelease();
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+
+    async cancel(reason) {
+      try {
+        await stub.cancel(reason);
+      } finally {
+        await settleAndRelease();
+      }
+    },
+  }, { highWaterMark: 0 });
+}
+
+// Creates a WritableStream that writes to a `WritableStreamSink` on the other end. `release` is
+// called once the stream is finished with the stub, whether closed, errored, or aborted.
+export function writableStreamFromStub(
+    stub: RemoteWritableStreamSink, release: () => void): WritableStream {
+  let inFlight: Promise<void>[] = [];
+
+  let waitForAll = async () => {
+    try {
+      while (inFlight.length > 0) {
+        await inFlight.shift();
+      }
+    } catch (err) {
+      release();
+      throw err;
+    }
+  };
+
+  return new WritableStream({
+    async write(chunk) {
+      // Don't wait for the write to complete, so that the next one can be sent right away. A
+      // failure will be reported by a later write, or by close().
+      let promise = stub.write(chunk).then(() => {});
+      promise.catch(() => {});  // avoid unhandled rejection until we await it
+      inFlight.push(promise);
+
+      if (inFlight.length >= MAX_WRITES_IN_FLIGHT) {
+        try {
+          await inFlight.shift();
+        } catch (err) {
+          release();
+          throw err;
+        }
+      }
+    },
+
+    async close() {
+      await waitForAll();
+      try {
+        await stub.close();
+      } finally {
+        release();
+      }
+    },
+
+    async abort(reason) {
+      try {
+        await stub.abort(reason);
+      } finally {
+        release();
+      }
+    },
+  });
+}
+
+// Creates an async iterator that iterates an `AsyncIteratorSource` on the other end. `release` is
+// called once the iterator is finished with the stub, whether done, thrown, or returned early.
+//
+// While the consumer is busy with one result, the next `prefetch` are already being fetched. A
+// value passed to `next()` is forwarded only if no prefetched result is pending, since those were
+// requested without one.
+export function asyncIteratorFromStub(
+    stub: RemoteAsyncIteratorSource, release: () => void,
+    prefetch: number = ASYNC_ITERATOR_PREFETCH): AsyncIterableIterator<unknown> {
+  let prefetched: Promise<IteratorResult<unknown>>[] = [];
+  let finished = false;
+
+  let fetch = (...args: [] | [unknown]) => {
+    let promise = stub.next(...args).then(result => result);
+    promise.catch(() => {});  // avoid unhandled rejection until we await it
+    prefetched.push(promise);
+  };
+
+  let finish = () => {
+    if (!finished) {
+      finished = true;
+      prefetched = [];
+      release();
+    }
+  };
+
+  // Makes a final call (`return()` or `throw()`) that ends the iteration early.
+  let callAndFinish = async (call: () => Promise<IteratorResult<unknown>>) => {
+    try {
+      return await call();
+    } finally {
+      finish();
+    }
+  };
+
+  return {
+    async next(...args: [] | [unknown]) {
+      if (finished) {
+        return { done: true, value: undefined };
+      }
+
+      if (prefetched.length === 0) {
+        fetch(...args);
+      }
+      while (prefetched.length < prefetch + 1) {
+        fetch();
+      }
+
+      try {
+        let result = await prefetched.shift()!;
+        if (result.done) {
+          finish();
+        }
+        return result;
+      } catch (err) {
+        finish();
+        throw err;
+      }
+    },
+
+    async return(value?: unknown) {
+      if (finished) {
+        return { done: true, value };
+      }
+      return callAndFinish(() => stub.return(value));
+    },
+
+    async throw(error?: any) {
+      if (finished) {
+        throw error;
+      }
+      return callAndFinish(() => stub.throw(error));
+    },
+
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+streamImpl.wrapStream = (value: ReadableStream | WritableStream | AsyncIterable<unknown>) => {
+  if (value instanceof ReadableStream) {
+    return <any>new ReadableStreamSource(value);
+  } else if (value instanceof WritableStream) {
+    return <any>new WritableStreamSink(value);
+  } else {
+    return <any>new AsyncIteratorSource(value);
+  }
+};
+
+streamImpl.streamFromStub = (kind: "readable-stream" | "writable-stream" | "async-iterable",
+                             stub: RpcStub, release: () => void, importer: Importer) => {
+  switch (kind) {
+    case "readable-stream":
+      return readableStreamFromStub(<any>stub, release, importer.streamReadAhead);
+    case "writable-stream":
+      return writableStreamFromStub(<any>stub, release);
+    case "async-iterable":
+      return asyncIteratorFromStub(<any>stub, release, importer.asyncIteratorPrefetch);
+  }
+};
+
+export function forceInitStreams() {}
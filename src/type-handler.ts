@@ -0,0 +1,180 @@
+import { Codec, WireMessage } from "./codec.js";
+import { RpcTarget, TypeForRpc } from "./core.js";
+
+/**
+ * Teaches Cap'n Web how to send an application-defined type, e.g. a `Decimal` class or
+ * `Temporal.PlainDate`, that it otherwise can't serialize. Pass handlers in
+ * `RpcSessionOptions.typeHandlers`; both peers need a handler with the same `name`.
+ *
+ * Handlers are only consulted for values the codec doesn't support by itself, so they can't change
+ * how built-in types like `Date` or plain objects are sent.
+ */
+export interface TypeHandler<T = any> {
+  // Identifies the type on the wire. Must be unique among the handlers of a session.
+  name: string;
+
+  // Returns true if this handler is responsible for `value`.
+  canHandle(value: unknown): value is T;
+
+  // Converts the value to data that Cap'n Web can serialize. The data may contain any serializable
+  // type (including other handled types), but not RPC stubs or targets.
+  serialize(value: T): unknown;
+
+  // Reconstructs the value from the data returned by `serialize()` on the other end.
+  deserialize(data: any): T;
+}
+
+/**
+ * Wraps a codec, adding support for the given custom types. Values that the underlying codec
+ * doesn't support, but some handler can, are classified as "custom".
+ */
+export class TypeHandlerCodec implements Codec {
+  constructor(private inner: Codec, handlers: TypeHandler[]) {
+    for (let handler of handlers) {
+      if (this.handlers.has(handler.name)) {
+        throw new Error(`Duplicate type handler name: ${handler.name}`);
+      }
+      this.handlers.set(handler.name, handler);
+    }
+  }
+
+  private handlers = new Map<string, TypeHandler>();
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get disableAttachments() {
+    return this.inner.disableAttachments;
+  }
+
+  get objectWires() {
+    return this.inner.objectWires;
+  }
+
+  encode(message: any): WireMessage | Promise<WireMessage> {
+    return this.inner.encode(message);
+  }
+
+  decode(wire: WireMessage): any {
+    return this.inner.decode(wire);
+  }
+
+  typeForRpc(value: unknown): TypeForRpc {
+    let kind = this.inner.typeForRpc(value);
+    if (kind === "unsupported" && this.findTypeHandler(value)) {
+      return "custom";
+    }
+    return kind;
+  }
+
+  findTypeHandler(value: unknown): TypeHandler | undefined {
+    for (let handler of this.handlers.values()) {
+      if (handler.canHandle(value)) {
+        return handler;
+      }
+    }
+    return undefined;
+  }
+
+  getTypeHandler(name: string): TypeHandler | undefined {
+    return this.handlers.get(name);
+  }
+}
+
+/**
+ * Options for `registerSerializableClass()`.
+ */
+export interface SerializableClassOptions<T> {
+  // Identifies the class on the wire. Defaults to the constructor's name, but should be given
+  // explicitly if the code may be minified.
+  name?: string;
+
+  // Converts an instance to data that Cap'n Web can serialize, like `TypeHandler.serialize()`.
+  // Defaults to a plain object copy of the instance's enumerable own properties.
+  toJSON?(value: T): unknown;
+
+  // Reconstructs an instance from the data returned by `toJSON()` on the other end. Defaults to
+  // creating an object with the class's prototype, *without* invoking the constructor, and
+  // assigning the properties to it.
+  fromJSON?(data: any): T;
+}
+
+export type SerializableClass = {
+  name: string;
+  toJSON(value: unknown): unknown;
+  fromJSON(data: any): unknown;
+};
+
+// Registered classes, by prototype and by name.
+const SERIALIZABLE_CLASSES = new Map<object, SerializableClass>();
+const SERIALIZABLE_CLASS_NAMES = new Map<string, SerializableClass>();
+
+/**
+ * Registers an application-defined class whose instances are passed by value, e.g. a `Money` or
+ * `Point` class, so that they arrive as instances of the same class rather than being rejected.
+ * Both peers must register the class under the same name.
+ *
+ * Unlike `TypeHandler`s, registrations are global rather than per session. Only direct instances
+ * of the class are matched, not instances of subclasses, which must be registered separately.
+ */
+export function registerSerializableClass<T extends object>(
+    ctor: abstract new (...args: any[]) => T, options: SerializableClassOptions<T> = {}): void {
+  if (typeof ctor !== "function" || typeof ctor.prototype !== "object") {
+    throw new TypeError("registerSerializableClass() requires a class.");
+  }
+  if (ctor.prototype instanceof RpcTarget || ctor.prototype instanceof Error) {
+    throw new TypeError(
+        "registerSerializableClass() can't be used with RpcTarget or Error subclasses.");
+  }
+
+  let name = options.name ?? ctor.name;
+  if (!name) {
+    throw new TypeError("registerSerializableClass() requires a name for anonymous classes.");
+  }
+  let existing = SERIALIZABLE_CLASS_NAMES.get(name);
+  if (existing && existing !== SERIALIZABLE_CLASSES.get(ctor.prototype)) {
+    throw new Error(`A serializable class named "${name}" is already registered.`);
+  }
+  let existingForClass = SERIALIZABLE_CLASSES.get(ctor.prototype);
+  if (existingForClass && existingForClass.name !== name) {
+    throw new Error(`This class is already registered as "${existingForClass.name}".`);
+  }
+
+  let prototype = ctor.prototype;
+  let cls: SerializableClass = {
+    name,
+    toJSON: <(value: unknown) => unknown>options.toJSON ?? (value => ({...<object>value})),
+    fromJSON: options.fromJSON ?? (data => {
+      if (typeof data !== "object" || data === null) {
+        throw new TypeError(`invalid data for serializable class: ${name}`);
+      }
+      return Object.assign(Object.create(prototype), data);
+    }),
+  };
+  SERIALIZABLE_CLASSES.set(prototype, cls);
+  SERIALIZABLE_CLASS_NAMES.set(name, cls);
+}
+
+// Returns the registration for the class of `value`, if `value` is a direct instance of a class
+// registered with `registerSerializableClass()`.
+export function findSerializableClass(value: object): SerializableClass | undefined {
+  return SERIALIZABLE_CLASSES.get(Object.getPrototypeOf(value));
+}
+
+// Returns the class registered with `registerSerializableClass()` under the given name.
+export function getSerializableClass(name: string): SerializableClass | undefined {
+  return SERIALIZABLE_CLASS_NAMES.get(name);
+}
+
+/**
+ * Returns a codec that behaves like `codec` but also supports the given custom types. Returns
+ * `codec` itself if `handlers` is empty. Useful with `serialize()` and `deserialize()`; sessions
+ * do this automatically based on `RpcSessionOptions.typeHandlers`.
+ */
+export function withTypeHandlers(codec: Codec, handlers?: TypeHandler[]): Codec {
+  if (!handlers || handlers.length === 0) {
+    return codec;
+  }
+  return new TypeHandlerCodec(codec, handlers);
+}
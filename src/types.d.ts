@@ -36,6 +36,7 @@ export type RpcCompatible<T> =
       [K in keyof T]: K extends number | string ? RpcCompatible<T[K]> : never;
     }
   | Promise<T extends Promise<infer U> ? RpcCompatible<U> : never>
+  | AsyncIterable<T extends AsyncIterable<infer U> ? RpcCompatible<U> : never>
   // Special types
   | Stub<Stubable>
   // Serialized as stubs, see `Stubify`
@@ -89,7 +90,8 @@ type BaseType =
   | WritableStream<Uint8Array>
   | Request
   | Response
-  | Headers;
+  | Headers
+  | Blob;
 // Recursively rewrite all `Stubable` types with `Stub`s, and resolve promises.
 // prettier-ignore
 export type Stubify<T> =
@@ -101,6 +103,7 @@ export type Stubify<T> =
   : T extends Array<infer V> ? Array<Stubify<V>>
   : T extends ReadonlyArray<infer V> ? ReadonlyArray<Stubify<V>>
   : T extends BaseType ? T
+  : T extends AsyncIterable<infer V> ? AsyncIterableIterator<Stubify<V>>
   // When using "unknown" instead of "any", interfaces are not stubified.
   : T extends { [key: string | number]: any } ? { [K in keyof T]: Stubify<T[K]> }
   : T;
@@ -140,6 +143,10 @@ type MapMethod<T> =
         map<V>(callback: (value: NonNullable<T>) => V): RpcResult<Array<V>>;
       };
 
+// Lets `for await` iterate a promise for an async iterable directly.
+type AsyncIterableMethod<T> =
+  T extends AsyncIterable<infer U> ? AsyncIterable<Stubify<U>> : unknown;
+
 // Type for method return or property on an RPC interface.
 // - Stubable types are replaced by stubs.
 // - RpcCompatible types are passed by value, with stubable types replaced by stubs
@@ -157,7 +164,7 @@ type RpcResult<R> =
 // By splitting these into separate types, editors will display them much nicer.
 type RpcStubResult<T extends Stubable> = Promise<Stub<T>> & Stub<T>;
 type RpcPromiseResult<T extends RpcCompatible<T>> =
-  Promise<Stubify<T> & MaybeDisposable<T>> & StubBase<T> & MapMethod<T>;
+  Promise<Stubify<T> & MaybeDisposable<T>> & StubBase<T> & MapMethod<T> & AsyncIterableMethod<T>;
 
 // Type for method or property on an RPC interface.
 // For methods, unwrap `Stub`s in parameters, and rewrite returns to be `Result`s.
@@ -83,6 +83,8 @@ class WebSocketTransport implements RpcTransport {
     });
   }
 
+  readonly supportsAttachments = true;
+
   #webSocket: WebSocket;
   #sendQueue?: WireMessage[];  // only if not opened yet
   #receiveResolver?: (message: WireMessage) => void;
@@ -127,6 +129,22 @@ class WebSocketTransport implements RpcTransport {
     }
   }
 
+  close?(): void {
+    if (this.#sendQueue === undefined) {
+      this.#webSocket.close(1000, "RPC session closed.");
+    } else {
+      // Not open yet. Close once the queued messages have been sent (by the listener registered
+      // in the constructor, which runs first).
+      this.#webSocket.addEventListener("open", () => {
+        this.#webSocket.close(1000, "RPC session closed.");
+      });
+    }
+
+    if (!this.#error) {
+      this.#error = new Error("RPC session was closed.");
+    }
+  }
+
   #receivedError(reason: any) {
     if (!this.#error) {
       this.#error = reason;